@@ -34,7 +34,7 @@ export default defineConfig([
 
   // Configuration for app/frontend files (SolidJS) - matches tsconfig.app.json
   {
-    files: ['fe/**/*.{ts,tsx}'],
+    files: ['fe/src/**/*.{ts,tsx}'],
     extends: [solid],
     languageOptions: {
       parser: tsParser,
@@ -48,7 +48,7 @@ export default defineConfig([
 
   // Configuration for Node.js files - matches tsconfig.node.json
   {
-    files: ['**/vite.config.ts'],
+    files: ['**/vite.config.ts', 'fe/cli/**/*.ts'],
     languageOptions: {
       parser: tsParser,
       parserOptions: {
@@ -0,0 +1,584 @@
+#!/usr/bin/env tsx
+// Headless calibration report: barocompare [options] <track> <track> [...]
+
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import type {
+  BaroAnalytics,
+  CalibrationInfo,
+  DifferenceMatrix,
+  FileHealth,
+  FlightPhase,
+  GPSAnalytics,
+  GPSDatum,
+  IGCFileWithMetadata,
+  NoiseAnalysis,
+  QualityIssue,
+  QualityIssueKind,
+  ResidualStats,
+  SeriesNoise,
+  TimeRange,
+  VarioAnalytics,
+  VarioComparison,
+} from '../src/types'
+import {
+  CALIBRATION_METHODS,
+  type CalibrationMethod,
+  type ReferenceMode,
+  type TemperatureModel,
+} from '../src/utils/baro-calibration'
+import {
+  calculateBaroCalibration,
+  calculateNoiseAnalysis,
+  calculateVarioComparison,
+  findCommonTimeRange,
+} from '../src/utils/chart-calculations'
+import {
+  applyTimeOffset,
+  type ClockOffsetEstimate,
+  estimateClockOffsets,
+  MIN_CLOCK_OFFSET_CONFIDENCE,
+} from '../src/utils/clock-offset'
+import { assessDataQuality } from '../src/utils/data-quality'
+import { assessFileHealth } from '../src/utils/file-health'
+import { FLIGHT_PHASES } from '../src/utils/flight-phases'
+import { COMMON_GPS_DATUM, convertGPSDatum, DEFAULT_GPS_DATUM } from '../src/utils/geoid'
+import type { GridRate } from '../src/utils/resampling'
+import { parseTrackBytes } from '../src/utils/track-formats'
+import {
+  DEFAULT_VALIDATION_FOLDS,
+  VALIDATION_SCHEMES,
+  type ValidationScheme,
+} from '../src/utils/validation'
+import { DEFAULT_VARIO_WINDOW_SECONDS } from '../src/utils/vario'
+
+const USAGE = `Usage: barocompare [options] <track> <track> [...]
+
+Tracks are IGC, GPX, KML, CSV or FIT files, told apart by extension.
+
+Options:
+  --method <name>          ${CALIBRATION_METHODS.join(' | ')} (default: linear-alt)
+  --reference <mode>       avg-gps | weighted-gps | gps1 | gps2 | ... | baro1 | baro2 | ...
+                           (default: avg-gps)
+  --grid-rate <hz>         1 | native | <hz> (default: 1)
+  --calibration-window <from:to>  Fit only between these seconds after the start of the
+                           common time range (default: all, the first 60 s for 1-point methods)
+  --evaluation-window <from:to>  Compute the statistics only between these seconds
+  --calibration-phases <list>  Fit only on these phases of File 1, comma-separated:
+                           ${FLIGHT_PHASES.join(', ')} (default: all)
+  --gps-datum <list>       GPS altitude datum per file, comma-separated: auto | geoid |
+                           ellipsoid (default: auto, from the HFALG/HFGPS header)
+  --bin-size <m>           Altitude band width of piecewise-alt (default: 500)
+  --band-size <m>          Altitude band width of the error statistics (default: 250)
+  --temperature <isa|estimate>  Atmosphere of the pressure-space methods (default: isa)
+  --isa-deviation <K>      Use ISA shifted by a uniform temperature deviation
+  --ground-temperature <C> Use a measured ground temperature (with --ground-elevation)
+  --ground-elevation <m>   Elevation of the ground temperature (default: 0)
+  --validation <scheme>    ${VALIDATION_SCHEMES.join(' | ')} (default: k-fold)
+  --folds <n>              Number of holdout folds (default: ${DEFAULT_VALIDATION_FOLDS})
+  --vario-window <s>       Vertical-speed smoothing window (default: ${DEFAULT_VARIO_WINDOW_SECONDS})
+  --lag-compensation       Shift each baro by its measured lag to GPS before fitting
+  --exclude-issues         Leave samples flagged by the data-quality pass out of the fit
+  --no-align               Skip automatic clock-offset alignment
+  --format <json|table>    Output format (default: table)
+  -h, --help               Show this help`
+
+function fail(message: string): never {
+  console.error(`barocompare: ${message}\n\n${USAGE}`)
+  process.exit(1)
+}
+
+// Reads and parses one track file, throwing with a message that names it
+function readTrack(cwd: string, p: string): IGCFileWithMetadata {
+  let bytes: Uint8Array
+  try {
+    bytes = readFileSync(path.resolve(cwd, p))
+  } catch (err) {
+    throw new Error(`cannot read ${p}: ${err.message}`)
+  }
+  try {
+    return parseTrackBytes(bytes, path.basename(p))
+  } catch (err) {
+    throw new Error(`cannot parse ${p}: ${err.message}`)
+  }
+}
+
+function parseNumber(name: string, value: string): number {
+  const n = Number.parseFloat(value)
+  if (!Number.isFinite(n)) fail(`invalid --${name}: ${value}`)
+  return n
+}
+
+function parseTemperature(values: {
+  temperature: string
+  'isa-deviation'?: string
+  'ground-temperature'?: string
+  'ground-elevation'?: string
+}): TemperatureModel {
+  if (values['ground-temperature'] !== undefined) {
+    return {
+      mode: 'ground-temp',
+      groundTemperature: parseNumber('ground-temperature', values['ground-temperature']),
+      groundElevation: parseNumber('ground-elevation', values['ground-elevation'] ?? '0'),
+    }
+  }
+  if (values['isa-deviation'] !== undefined) {
+    return {
+      mode: 'isa-deviation',
+      isaDeviation: parseNumber('isa-deviation', values['isa-deviation']),
+    }
+  }
+  if (values.temperature !== 'isa' && values.temperature !== 'estimate') {
+    fail(`invalid --temperature: ${values.temperature}`)
+  }
+  return { mode: values.temperature }
+}
+
+// "from:to" in seconds after `start`
+function parseWindow(name: string, value: string | undefined, start: number) {
+  if (value === undefined) return
+  const [from, to] = value.split(':').map(Number.parseFloat)
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    fail(`invalid --${name}: ${value}`)
+  }
+  return { start: start + from * 1000, end: start + to * 1000 }
+}
+
+function formatWindow(range: TimeRange | null): string {
+  if (!range) return '-'
+  const time = (t: number) => new Date(t).toISOString().slice(11, 19)
+  return `${time(range.start)}-${time(range.end)} UTC`
+}
+
+function parseGridRate(value: string): GridRate {
+  if (value === 'native') return 'native'
+  const rate = Number.parseFloat(value)
+  if (!Number.isFinite(rate) || rate <= 0) fail(`invalid --grid-rate: ${value}`)
+  return rate
+}
+
+interface Report {
+  files: Array<string>
+  gpsDatums: Array<GPSDatum> // as read, before conversion to the common datum
+  method: CalibrationMethod
+  referenceMode: ReferenceMode
+  clockOffsets: Array<ClockOffsetEstimate & { applied: boolean }>
+  calibration: Omit<CalibrationInfo, 'instruments'> & {
+    instruments: Array<
+      Omit<CalibrationInfo['instruments'][number], 'calibrateBaro' | 'model' | 'fitPoints'>
+    >
+  }
+  vario: Omit<VarioComparison, 'baroTraces' | 'gpsTraces'>
+  noise: NoiseAnalysis
+  quality: Array<Array<QualityIssue>>
+  health: Array<FileHealth>
+}
+
+function buildReport(
+  files: Array<string>,
+  gpsDatums: Array<GPSDatum>,
+  method: CalibrationMethod,
+  referenceMode: ReferenceMode,
+  clockOffsets: Report['clockOffsets'],
+  info: CalibrationInfo,
+  vario: VarioComparison,
+  noise: NoiseAnalysis,
+  quality: Array<Array<QualityIssue>>,
+  health: Array<FileHealth>,
+): Report {
+  const { instruments, ...rest } = info
+  const { baroTraces, gpsTraces, ...varioStats } = vario
+  return {
+    files,
+    gpsDatums,
+    method,
+    referenceMode,
+    clockOffsets,
+    calibration: {
+      ...rest,
+      instruments: instruments.map(({ calibrateBaro, model, fitPoints, ...params }) => params),
+    },
+    vario: varioStats,
+    noise,
+    quality,
+    health,
+  }
+}
+
+function formatTable(header: Array<string>, rows: Array<Array<string>>): string {
+  const widths = header.map((h, c) => Math.max(h.length, ...rows.map((r) => r[c].length)))
+  const line = (cells: Array<string>) =>
+    cells.map((cell, c) => (c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c]))).join('  ')
+  return [line(header), widths.map((w) => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n')
+}
+
+function formatNumber(value: number | undefined, digits: number): string {
+  return value === undefined ? '-' : value.toFixed(digits)
+}
+
+function residualCells(stats: ResidualStats | null): Array<string> {
+  return stats
+    ? [stats.bias.toFixed(1), stats.rmse.toFixed(1), stats.percentile95.toFixed(1)]
+    : ['-', '-', '-']
+}
+
+function matrixRows(prefix: string, matrix: DifferenceMatrix<BaroAnalytics | GPSAnalytics>) {
+  const rows: Array<Array<string>> = []
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      const stats = matrix[i][j]
+      if (!stats) continue
+      rows.push([
+        `${prefix}${i + 1} - ${prefix}${j + 1}`,
+        stats.meanDifference.toFixed(1),
+        stats.maxDifference.toFixed(1),
+        stats.percentile95.toFixed(1),
+      ])
+    }
+  }
+  return rows
+}
+
+function varioRows(prefix: string, matrix: DifferenceMatrix<VarioAnalytics>) {
+  const rows: Array<Array<string>> = []
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      const stats = matrix[i][j]
+      if (!stats) continue
+      rows.push([
+        `${prefix}${i + 1} - ${prefix}${j + 1}`,
+        stats.rmsDifference.toFixed(2),
+        stats.percentile95.toFixed(2),
+        stats.correlation.toFixed(3),
+      ])
+    }
+  }
+  return rows
+}
+
+function printTable(report: Report) {
+  const { calibration } = report
+  console.log(
+    `Method: ${report.method}  Reference: ${report.referenceMode}  ` +
+      `Grid: ${calibration.gridRate.toFixed(1)} Hz  Points used: ${calibration.pointsUsed}  ` +
+      `ISA deviation: ${calibration.atmosphere.isaDeviation.toFixed(1)} K` +
+      `${calibration.atmosphere.estimated ? ' (estimated)' : ''}\n` +
+      `Calibration window: ${formatWindow(calibration.calibrationRange)}  ` +
+      `Evaluation window: ${formatWindow(calibration.evaluationRange)}\n`,
+  )
+
+  console.log(
+    formatTable(
+      [
+        'File',
+        'GPS datum',
+        'Clock offset (s)',
+        'Confidence',
+        'Alt slope',
+        'Alt offset',
+        'P slope',
+        'P offset (Pa)',
+        'Drift (Pa/h)',
+        'Lag vs GPS (s)',
+      ],
+      calibration.instruments.map((instrument, i) => [
+        `${i + 1}: ${report.files[i]}`,
+        report.gpsDatums[i],
+        `${(report.clockOffsets[i].offsetMs / 1000).toFixed(1)}${report.clockOffsets[i].applied ? '' : ' (not applied)'}`,
+        report.clockOffsets[i].confidence.toFixed(2),
+        formatNumber(instrument.slope, 6),
+        formatNumber(instrument.offset, 2),
+        formatNumber(instrument.pressureSlope, 6),
+        formatNumber(instrument.pressureOffsetPa, 2),
+        formatNumber(instrument.driftRatePaPerHour, 1),
+        formatNumber(
+          calibration.lag?.toGps[i] ? calibration.lag.toGps[i].lagMs / 1000 : undefined,
+          2,
+        ),
+      ]),
+    ),
+  )
+  console.log()
+
+  const { validation } = calibration
+  console.log(
+    formatTable(
+      [
+        'Baro',
+        'Bias (m)',
+        'RMSE (m)',
+        'P95 (m)',
+        ...(validation.folds > 0 ? ['OOS bias (m)', 'OOS RMSE (m)', 'OOS P95 (m)'] : []),
+      ],
+      validation.instruments.map((instrument, i) => [
+        `baro${i + 1}`,
+        ...residualCells(instrument.inSample),
+        ...(validation.folds > 0 ? residualCells(instrument.outOfSample) : []),
+      ]),
+    ),
+  )
+  if (validation.folds > 0) {
+    console.log(`Out-of-sample (OOS): ${validation.folds}-fold holdout`)
+  }
+  console.log()
+
+  console.log(
+    formatTable(
+      ['Pair', 'Mean (m)', 'Max (m)', 'P95 (m)'],
+      [...matrixRows('baro', calibration.baroMatrix), ...matrixRows('gps', calibration.gpsMatrix)],
+    ),
+  )
+  console.log()
+
+  console.log('By flight phase (File 1)\n')
+  console.log(
+    formatTable(
+      ['Phase', 'Minutes', 'Pair', 'Mean (m)', 'Max (m)', 'P95 (m)'],
+      calibration.phases.analytics.flatMap((analytics) =>
+        [
+          ...matrixRows('baro', analytics.baroMatrix),
+          ...matrixRows('gps', analytics.gpsMatrix),
+        ].map((row) => [analytics.phase, (analytics.seconds / 60).toFixed(1), ...row]),
+      ),
+    ),
+  )
+  console.log()
+
+  const { altitudeBands } = calibration
+  console.log(`Error by reference altitude, ${altitudeBands.size} m bands\n`)
+  console.log(
+    formatTable(
+      ['Band (m)', 'Minutes', 'Baro', 'Bias (m)', 'RMSE (m)', 'P95 (m)'],
+      altitudeBands.bands.flatMap((band) =>
+        band.errors.map((stats, i) => [
+          `${band.min}-${band.max}`,
+          (band.seconds / 60).toFixed(1),
+          `baro${i + 1}`,
+          ...residualCells(stats),
+        ]),
+      ),
+    ),
+  )
+  console.log(
+    `\nTrend (m per 1000 m): ${altitudeBands.trends
+      .map((trend, i) => `baro${i + 1} ${trend === null ? '-' : trend.toFixed(1)}`)
+      .join('  ')}\n`,
+  )
+
+  const { vario } = report
+  const noise = (value: number | null) => (value === null ? '-' : value.toFixed(2))
+  console.log(`Vertical speed, ${vario.windowSeconds} s window\n`)
+  console.log(
+    formatTable(
+      ['File', 'Baro noise (m/s)', 'GPS noise (m/s)'],
+      vario.baroNoise.map((baroNoise, i) => [
+        `${i + 1}`,
+        noise(baroNoise),
+        noise(vario.gpsNoise[i]),
+      ]),
+    ),
+  )
+  console.log()
+  console.log(
+    formatTable(
+      ['Pair', 'RMS (m/s)', 'P95 (m/s)', 'Correlation'],
+      [...varioRows('baro', vario.baroMatrix), ...varioRows('gps', vario.gpsMatrix)],
+    ),
+  )
+  console.log()
+
+  const stableSeconds = report.noise.segments.reduce((acc, s) => acc + (s.end - s.start), 0) / 1000
+  const allanAt = (series: SeriesNoise, tau: number) =>
+    noise(series.allan.find((p) => p.tau === tau)?.deviation ?? null)
+  console.log(
+    `Sensor noise, ${report.noise.segments.length} stable segments (${stableSeconds.toFixed(0)} s)\n`,
+  )
+  console.log(
+    formatTable(
+      ['Series', 'High-pass RMS (m)', 'Allan 1 s (m)', 'Allan 10 s (m)', 'Allan 100 s (m)'],
+      (['baro', 'gps'] as const).flatMap((kind) =>
+        report.noise[kind].map((series, i) => [
+          `${kind}${i + 1}`,
+          noise(series.residualRMS),
+          allanAt(series, 1),
+          allanAt(series, 10),
+          allanAt(series, 100),
+        ]),
+      ),
+    ),
+  )
+  console.log()
+
+  const kinds: Array<QualityIssueKind> = ['spike', 'stuck', 'gap', 'vertical-speed']
+  const count = (issues: Array<QualityIssue>, kind: QualityIssueKind, series: 'baro' | 'gps') =>
+    issues.filter((issue) => issue.kind === kind && issue.series === series).length
+  console.log('Data quality issues (baro / GPS)\n')
+  console.log(
+    formatTable(
+      ['File', 'Spikes', 'Stuck', 'Gaps', 'Jumps'],
+      report.quality.map((issues, i) => [
+        `${i + 1}`,
+        ...kinds.map((kind) => `${count(issues, kind, 'baro')} / ${count(issues, kind, 'gps')}`),
+      ]),
+    ),
+  )
+  console.log()
+
+  console.log('File health\n')
+  console.log(
+    formatTable(
+      ['File', 'Fixes', 'Interval (s)', 'Warnings'],
+      report.health.map((health, i) => [
+        `${i + 1}`,
+        `${health.rate.fixes}`,
+        formatNumber(health.rate.medianInterval ?? undefined, 1),
+        health.warnings.join('; ') || '-',
+      ]),
+    ),
+  )
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      method: { type: 'string', default: 'linear-alt' },
+      reference: { type: 'string', default: 'avg-gps' },
+      'grid-rate': { type: 'string', default: '1' },
+      'calibration-window': { type: 'string' },
+      'evaluation-window': { type: 'string' },
+      'calibration-phases': { type: 'string' },
+      'gps-datum': { type: 'string' },
+      'bin-size': { type: 'string', default: '500' },
+      'band-size': { type: 'string', default: '250' },
+      temperature: { type: 'string', default: 'isa' },
+      'isa-deviation': { type: 'string' },
+      'ground-temperature': { type: 'string' },
+      'ground-elevation': { type: 'string' },
+      validation: { type: 'string', default: 'k-fold' },
+      folds: { type: 'string', default: String(DEFAULT_VALIDATION_FOLDS) },
+      'vario-window': { type: 'string', default: String(DEFAULT_VARIO_WINDOW_SECONDS) },
+      'lag-compensation': { type: 'boolean', default: false },
+      'exclude-issues': { type: 'boolean', default: false },
+      'no-align': { type: 'boolean', default: false },
+      format: { type: 'string', default: 'table' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const method = values.method as CalibrationMethod
+  if (!CALIBRATION_METHODS.includes(method)) fail(`unknown --method: ${values.method}`)
+
+  const referenceMode = values.reference as ReferenceMode
+  if (!/^(avg-gps|weighted-gps|gps\d+|baro\d+)$/.test(referenceMode)) {
+    fail(`invalid --reference: ${referenceMode}`)
+  }
+
+  if (values.format !== 'json' && values.format !== 'table') {
+    fail(`invalid --format: ${values.format}`)
+  }
+
+  const calibrationPhases = values['calibration-phases']?.split(',') as
+    | Array<FlightPhase>
+    | undefined
+  if (calibrationPhases?.some((phase) => !FLIGHT_PHASES.includes(phase))) {
+    fail(`invalid --calibration-phases: ${values['calibration-phases']}`)
+  }
+
+  const scheme = values.validation as ValidationScheme
+  if (!VALIDATION_SCHEMES.includes(scheme)) fail(`invalid --validation: ${values.validation}`)
+
+  const folds = Number.parseInt(values.folds, 10)
+  if (!Number.isFinite(folds) || folds < 2) fail(`invalid --folds: ${values.folds}`)
+
+  if (positionals.length < 2) fail('at least two track files are required')
+
+  // pnpm runs scripts from the package directory, resolve against the caller's cwd
+  const cwd = process.env.INIT_CWD ?? process.cwd()
+  let files: Array<IGCFileWithMetadata>
+  try {
+    files = positionals.map((p) => readTrack(cwd, p))
+  } catch (err) {
+    fail(err.message)
+  }
+
+  const datumValues = values['gps-datum']?.split(',') ?? []
+  if (datumValues.some((value) => !['auto', 'geoid', 'ellipsoid'].includes(value))) {
+    fail(`invalid --gps-datum: ${values['gps-datum']}`)
+  }
+  const gpsDatums = files.map((file, i) =>
+    datumValues[i] && datumValues[i] !== 'auto'
+      ? (datumValues[i] as GPSDatum)
+      : (file.gpsDatum ?? DEFAULT_GPS_DATUM),
+  )
+  const converted = files.map((file, i) => convertGPSDatum(file, gpsDatums[i], COMMON_GPS_DATUM))
+
+  // With lag compensation the clocks are aligned on GPS, so the baro lag is not absorbed
+  const estimates = estimateClockOffsets(converted, {
+    source: values['lag-compensation'] ? 'gps' : 'baro',
+  })
+  const clockOffsets = estimates.map((estimate) => ({
+    ...estimate,
+    applied: !values['no-align'] && estimate.confidence >= MIN_CLOCK_OFFSET_CONFIDENCE,
+  }))
+  const aligned = converted.map((file, i) =>
+    applyTimeOffset(file, clockOffsets[i].applied ? clockOffsets[i].offsetMs : 0),
+  )
+
+  const bandSize = parseNumber('band-size', values['band-size'])
+  if (bandSize <= 0) fail(`invalid --band-size: ${values['band-size']}`)
+
+  const start = findCommonTimeRange(aligned)?.start ?? 0
+  const info = calculateBaroCalibration(aligned, {
+    method,
+    referenceMode,
+    calibrationRange: parseWindow('calibration-window', values['calibration-window'], start),
+    evaluationRange: parseWindow('evaluation-window', values['evaluation-window'], start),
+    calibrationPhases,
+    gridRate: parseGridRate(values['grid-rate']),
+    temperature: parseTemperature(values),
+    altitudeBinSize: parseNumber('bin-size', values['bin-size']),
+    errorBandSize: bandSize,
+    validation: { scheme, folds },
+    lagCompensation: values['lag-compensation'],
+    measureLag: true,
+    excludeQualityIssues: values['exclude-issues'],
+    robust: true,
+  })
+
+  const varioWindow = parseNumber('vario-window', values['vario-window'])
+  if (varioWindow <= 0) fail(`invalid --vario-window: ${values['vario-window']}`)
+  const vario = calculateVarioComparison(aligned, info, varioWindow)
+
+  const noise = calculateNoiseAnalysis(aligned, info)
+
+  const quality = files.map(assessDataQuality)
+  const health = files.map(assessFileHealth)
+
+  const report = buildReport(
+    positionals,
+    gpsDatums,
+    method,
+    referenceMode,
+    clockOffsets,
+    info,
+    vario,
+    noise,
+    quality,
+    health,
+  )
+
+  if (values.format === 'json') {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printTable(report)
+  }
+}
+
+main()
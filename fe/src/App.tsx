@@ -1,42 +1,217 @@
 import type { Component } from 'solid-js'
-import { createSignal, Show } from 'solid-js'
+import { createSignal, For, onMount, Show } from 'solid-js'
 import { AltitudeChart } from './components/AltitudeChart'
+import type { FileChange } from './components/FileSelectionPanel'
 import type { IGCFileWithMetadata } from './types'
-import { parseIGCFile, sortIGCFiles } from './utils/igc-parser'
+import { parseTracksInWorker } from './utils/analysis-client'
+import {
+  deleteSession,
+  listRecentSessions,
+  loadSession,
+  loadSessionFiles,
+  remapSettings,
+  type SessionSettings,
+  type StoredSession,
+  type StoredTrackFile,
+  saveSession,
+  sessionId,
+  updateSessionSettings,
+  withoutFlightSettings,
+} from './utils/session-store'
+import { sortTrackFiles, TRACK_EXTENSIONS } from './utils/track-formats'
+
+// Id of the comparison open in this tab, so a reload reopens it while a new tab starts at
+// the recent list
+const CURRENT_SESSION_KEY = 'barocompare-session'
+
+// Settings are written once they stop changing, not on every zoom step
+const SETTINGS_SAVE_DELAY_MS = 1000
+
+interface Comparison {
+  session: StoredSession
+  stored: Array<StoredTrackFile>
+  files: Array<IGCFileWithMetadata>
+}
 
 export const AppUI: Component = () => {
-  const [file1Data, setFile1Data] = createSignal<IGCFileWithMetadata | null>(null)
-  const [file2Data, setFile2Data] = createSignal<IGCFileWithMetadata | null>(null)
+  const [comparison, setComparison] = createSignal<Comparison | null>(null)
+  const [recentSessions, setRecentSessions] = createSignal<Array<StoredSession>>([])
   const [error, setError] = createSignal<string>('')
   const [isDragging, setIsDragging] = createSignal(false)
+  // Settings of the last comparison shown, carried over to newly dropped files
+  let lastSettings: SessionSettings | null = null
+  let saveTimer: ReturnType<typeof setTimeout> | undefined
 
-  const handleDrop = async (e: DragEvent) => {
-    e.preventDefault()
-    setIsDragging(false)
+  const refreshRecentSessions = async () => {
+    try {
+      setRecentSessions(await listRecentSessions())
+    } catch (err) {
+      console.error(err)
+    }
+  }
+
+  const readTrackFiles = async (files: Array<File>) => {
+    const stored: Array<StoredTrackFile> = []
+    for (const file of files) {
+      stored.push({ name: file.name, bytes: await file.arrayBuffer() })
+    }
+    return stored
+  }
+
+  const openComparison = (
+    session: StoredSession,
+    stored: Array<StoredTrackFile>,
+    files: Array<IGCFileWithMetadata>,
+  ) => {
+    setComparison({ session, stored, files })
+    sessionStorage.setItem(CURRENT_SESSION_KEY, session.id)
+  }
+
+  // Shows a new comparison and adds it to the recent ones
+  const startComparison = (
+    id: string,
+    stored: Array<StoredTrackFile>,
+    files: Array<IGCFileWithMetadata>,
+    settings: SessionSettings | null,
+  ) => {
+    const session: StoredSession = {
+      id,
+      date: files[0].date,
+      filenames: stored.map((file) => file.name),
+      settings,
+      updatedAt: Date.now(),
+    }
+    openComparison(session, stored, files)
+    saveSession(session, stored).catch(console.error)
+  }
+
+  const openStoredSession = async (id: string) => {
     setError('')
+    try {
+      const [session, stored] = await Promise.all([loadSession(id), loadSessionFiles(id)])
+      if (session && stored) openComparison(session, stored, await parseTracksInWorker(stored))
+    } catch (err) {
+      setError(`Error opening saved comparison: ${err}`)
+      console.error(err)
+    }
+  }
 
-    const files = Array.from(e.dataTransfer?.files || [])
-    const igcFiles = sortIGCFiles(files)
+  const closeComparison = () => {
+    setComparison(null)
+    sessionStorage.removeItem(CURRENT_SESSION_KEY)
+    refreshRecentSessions()
+  }
 
-    if (igcFiles.length === 0) {
-      setError('No .igc files found in drop')
+  const removeStoredSession = async (id: string) => {
+    try {
+      await deleteSession(id)
+    } catch (err) {
+      console.error(err)
+    }
+    refreshRecentSessions()
+  }
+
+  const handleSettingsChange = (id: string, settings: SessionSettings) => {
+    lastSettings = settings
+    clearTimeout(saveTimer)
+    saveTimer = setTimeout(() => {
+      updateSessionSettings(id, settings).catch(console.error)
+    }, SETTINGS_SAVE_DELAY_MS)
+  }
+
+  onMount(async () => {
+    const id = sessionStorage.getItem(CURRENT_SESSION_KEY)
+    if (id) await openStoredSession(id)
+    await refreshRecentSessions()
+  })
+
+  const loadTrackFiles = async (selected: Array<File>) => {
+    setError('')
+    const trackFiles = sortTrackFiles(selected)
+
+    if (trackFiles.length === 0) {
+      setError('No .igc, .gpx, .kml, .csv or .fit files found')
       return
     }
 
     try {
-      const data1 = await parseIGCFile(igcFiles[0])
-      setFile1Data(data1)
-
-      if (igcFiles[1]) {
-        const data2 = await parseIGCFile(igcFiles[1])
-        setFile2Data(data2)
-      } else {
-        setFile2Data(null)
+      const stored = await readTrackFiles(trackFiles)
+      const files = await parseTracksInWorker(stored)
+      // Files loaded before reopen with their saved settings
+      const id = await sessionId(stored)
+      const saved = await loadSession(id).catch(() => {})
+      startComparison(
+        id,
+        stored,
+        files,
+        saved?.settings ?? (lastSettings ? withoutFlightSettings(lastSettings) : null),
+      )
+    } catch (err) {
+      setError(`Error parsing track file: ${err}`)
+      console.error(err)
+    }
+  }
+
+  // Role swaps, replacements, removals and additions keep the files and settings already
+  // there, with the per-file settings following their file
+  const handleFilesChange = async (change: FileChange) => {
+    const current = comparison()
+    if (!current) return
+    setError('')
+
+    const entries = current.stored.map((stored, i) => ({
+      stored,
+      file: current.files[i],
+      origin: i as number | null,
+    }))
+    const newEntries = async (files: Array<File>) => {
+      const stored = await readTrackFiles(files)
+      const parsed = await parseTracksInWorker(stored)
+      return stored.map((file, i) => ({ stored: file, file: parsed[i], origin: null }))
+    }
+
+    try {
+      switch (change.kind) {
+        case 'swap':
+          ;[entries[change.index], entries[change.other]] = [
+            entries[change.other],
+            entries[change.index],
+          ]
+          break
+        case 'replace':
+          entries.splice(change.index, 1, ...(await newEntries([change.file])))
+          break
+        case 'remove':
+          entries.splice(change.index, 1)
+          break
+        case 'add':
+          entries.push(...(await newEntries(sortTrackFiles(change.files))))
+          break
       }
     } catch (err) {
-      setError(`Error parsing IGC file: ${err}`)
+      setError(`Error parsing track file: ${err}`)
       console.error(err)
+      return
     }
+
+    const storedFiles = entries.map((entry) => entry.stored)
+    startComparison(
+      await sessionId(storedFiles),
+      storedFiles,
+      entries.map((entry) => entry.file),
+      lastSettings
+        ? remapSettings(
+            lastSettings,
+            entries.map((entry) => entry.origin),
+          )
+        : null,
+    )
+  }
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    loadTrackFiles(Array.from(e.dataTransfer?.files || []))
   }
 
   const handleDragOver = (e: DragEvent) => {
@@ -49,7 +224,7 @@ export const AppUI: Component = () => {
     setIsDragging(false)
   }
 
-  const hasFiles = () => file1Data() !== null || file2Data() !== null
+  const hasFiles = () => comparison() !== null
 
   return (
     <div
@@ -65,7 +240,7 @@ export const AppUI: Component = () => {
             <h1 class="text-3xl font-bold text-gray-900 mb-1">Welcome to barocompare</h1>
 
             <p class="text-lg text-gray-700 mb-4">
-              Analyze and compare IGC tracks from two instruments used on the same flight.
+              Analyze and compare IGC tracks from two or more instruments used on the same flight.
             </p>
 
             <div class="space-y-3 text-gray-600 mb-6">
@@ -74,10 +249,10 @@ export const AppUI: Component = () => {
               </p>
               <ul class="list-disc list-inside space-y-2 ml-4">
                 <li>
-                  <strong>GPS1</strong> vs <strong>GPS2</strong> altitude
+                  <strong>GPS1</strong> vs <strong>GPS2</strong> vs … altitude
                 </li>
                 <li>
-                  <strong>Baro1</strong> vs <strong>Baro2</strong> altitude
+                  <strong>Baro1</strong> vs <strong>Baro2</strong> vs … altitude
                 </li>
               </ul>
             </div>
@@ -97,12 +272,66 @@ export const AppUI: Component = () => {
             </div>
           </div>
 
+          <Show when={recentSessions().length > 0}>
+            <div class="max-w-3xl mx-auto p-4 bg-white rounded-lg shadow-sm border border-gray-200">
+              <h3 class="font-semibold text-gray-900 mb-3">Recent comparisons</h3>
+              <ul class="divide-y divide-gray-200 text-sm">
+                <For each={recentSessions()}>
+                  {(session) => (
+                    <li class="flex items-center gap-3 py-1.5">
+                      <button
+                        type="button"
+                        class="flex-1 text-left text-blue-600 hover:text-blue-800"
+                        onClick={() => openStoredSession(session.id)}
+                      >
+                        {session.filenames.join(' vs ')}
+                      </button>
+                      <span class="text-gray-600">{session.date}</span>
+                      <span class="text-gray-500 w-40 text-right">
+                        {new Date(session.updatedAt).toLocaleString()}
+                      </span>
+                      <button
+                        type="button"
+                        class="text-gray-400 hover:text-red-600"
+                        title="Remove from recent comparisons"
+                        onClick={() => removeStoredSession(session.id)}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  )}
+                </For>
+              </ul>
+              <p class="mt-2 text-xs text-gray-500">
+                Comparisons and their settings are kept in this browser only.
+              </p>
+            </div>
+          </Show>
+
           <div
             class={`max-w-3xl mx-auto border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
               isDragging() ? 'border-blue-500 bg-blue-50' : 'border-gray-300 bg-white'
             }`}
           >
-            <p class="text-lg mb-2">Drop 2 .igc files here</p>
+            <p class="text-lg mb-2">
+              Drop 2 or more .igc files here, or{' '}
+              <label class="text-blue-600 hover:text-blue-800 underline cursor-pointer">
+                choose files
+                <input
+                  type="file"
+                  accept={TRACK_EXTENSIONS.join(',')}
+                  multiple
+                  class="hidden"
+                  onChange={(e) => {
+                    loadTrackFiles(Array.from(e.currentTarget.files ?? []))
+                    e.currentTarget.value = ''
+                  }}
+                />
+              </label>
+            </p>
+            <p class="text-sm text-gray-500">
+              GPX, KML, CSV and FIT tracks are read too, with whichever altitudes they have
+            </p>
           </div>
         </Show>
 
@@ -110,8 +339,24 @@ export const AppUI: Component = () => {
           <div class="text-red-600 bg-red-50 p-3 rounded border border-red-200">{error()}</div>
         </Show>
 
-        <Show when={hasFiles()}>
-          <AltitudeChart file1Data={file1Data()} file2Data={file2Data()} />
+        <Show when={comparison()} keyed>
+          {(current) => (
+            <>
+              <button
+                type="button"
+                class="text-sm text-blue-600 hover:text-blue-800 underline"
+                onClick={closeComparison}
+              >
+                ← Recent comparisons
+              </button>
+              <AltitudeChart
+                files={current.files}
+                settings={current.session.settings}
+                onSettingsChange={(settings) => handleSettingsChange(current.session.id, settings)}
+                onFilesChange={handleFilesChange}
+              />
+            </>
+          )}
         </Show>
       </div>
     </div>
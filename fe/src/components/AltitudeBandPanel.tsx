@@ -0,0 +1,190 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createSignal, For, onCleanup, onMount } from 'solid-js'
+import type { AltitudeBand, CalibrationInfo, ResidualStats } from '../types'
+import { getInstrumentColors } from '../utils/instrument-colors'
+
+interface AltitudeBandPanelProps {
+  altitudeBands: CalibrationInfo['altitudeBands']
+  onSizeChange: (size: number) => void
+}
+
+type BandMetric = 'bias' | 'rmse' | 'percentile95'
+
+const METRICS: Array<{ metric: BandMetric; label: string }> = [
+  { metric: 'bias', label: 'Bias' },
+  { metric: 'rmse', label: 'RMSE' },
+  { metric: 'percentile95', label: 'P95' },
+]
+
+const BAND_SIZES = [100, 250, 500, 1000]
+
+const bandLabel = (band: AltitudeBand) => `${band.min}–${band.max} m`
+
+const formatError = (stats: ResidualStats | null) =>
+  stats ? `${stats.bias.toFixed(1)} / ${stats.rmse.toFixed(1)}` : '–'
+
+// Calibrated baro error against the reference, by reference altitude band
+export const AltitudeBandPanel: Component<AltitudeBandPanelProps> = (props) => {
+  let chartRef: HTMLDivElement | undefined
+  const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
+  const [metric, setMetric] = createSignal<BandMetric>('bias')
+
+  const instrumentCount = () => props.altitudeBands.trends.length
+  const pairs = () => {
+    const result: Array<[number, number]> = []
+    for (let i = 0; i < instrumentCount(); i++) {
+      for (let j = i + 1; j < instrumentCount(); j++) result.push([i, j])
+    }
+    return result
+  }
+
+  onMount(() => {
+    if (chartRef) {
+      const chartInstance = echarts.init(chartRef)
+      setChart(chartInstance)
+
+      const handleResize = () => chartInstance.resize()
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        chartInstance.dispose()
+      })
+    }
+  })
+
+  createEffect(() => {
+    const chartInstance = chart()
+    if (!chartInstance) return
+
+    const { bands } = props.altitudeBands
+    const selected = metric()
+    const series = props.altitudeBands.trends.map((_, i) => {
+      const color = getInstrumentColors(i).baro
+      return {
+        name: `baro${i + 1}`,
+        type: 'bar',
+        data: bands.map((band) => band.errors[i]?.[selected] ?? null),
+        itemStyle: { color },
+      }
+    })
+
+    chartInstance.setOption(
+      {
+        tooltip: {
+          trigger: 'axis',
+          axisPointer: { type: 'shadow' },
+          valueFormatter: (value: number) => `${value.toFixed(1)} m`,
+        },
+        legend: { data: series.map((s) => s.name), top: 0, type: 'scroll' },
+        grid: { left: '3%', right: '4%', bottom: 30, top: 40, containLabel: true },
+        xAxis: {
+          type: 'value',
+          name: 'Error vs reference (m)',
+          nameLocation: 'middle',
+          nameGap: 25,
+        },
+        yAxis: { type: 'category', data: bands.map(bandLabel) },
+        series,
+      },
+      true,
+    )
+  })
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="font-semibold text-gray-900">Error by Altitude</h3>
+        <label class="text-sm text-gray-600 flex items-center gap-2">
+          Band
+          <select
+            class="border border-gray-300 rounded px-2 py-1"
+            value={props.altitudeBands.size}
+            onChange={(e) => props.onSizeChange(Number(e.currentTarget.value))}
+          >
+            <For each={BAND_SIZES}>{(size) => <option value={size}>{size} m</option>}</For>
+          </select>
+        </label>
+      </div>
+
+      <div class="overflow-x-auto">
+        <table class="text-sm">
+          <thead>
+            <tr>
+              <th class="px-2 py-1 text-left font-medium text-gray-600">Reference altitude</th>
+              <th class="px-2 py-1 text-right font-medium text-gray-600">Time (min)</th>
+              <For each={props.altitudeBands.trends}>
+                {(_, i) => (
+                  <th class="px-2 py-1 text-right font-medium text-gray-600">baro{i() + 1}</th>
+                )}
+              </For>
+              <For each={pairs()}>
+                {([i, j]) => (
+                  <th class="px-2 py-1 text-right font-medium text-gray-600">
+                    baro{i + 1} - baro{j + 1}
+                  </th>
+                )}
+              </For>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={props.altitudeBands.bands}>
+              {(band) => (
+                <tr class="border-t border-gray-200">
+                  <th class="px-2 py-1 text-left font-medium text-gray-600">{bandLabel(band)}</th>
+                  <td class="px-2 py-1 text-right font-mono">{(band.seconds / 60).toFixed(1)}</td>
+                  <For each={band.errors}>
+                    {(stats) => (
+                      <td class="px-2 py-1 text-right font-mono">{formatError(stats)}</td>
+                    )}
+                  </For>
+                  <For each={pairs()}>
+                    {([i, j]) => (
+                      <td class="px-2 py-1 text-right font-mono">
+                        {band.baroMatrix[i][j]?.meanDifference.toFixed(1) ?? '–'}
+                      </td>
+                    )}
+                  </For>
+                </tr>
+              )}
+            </For>
+            <tr class="border-t-2 border-gray-300">
+              <th class="px-2 py-1 text-left font-medium text-gray-600">Trend (m / 1000 m)</th>
+              <td />
+              <For each={props.altitudeBands.trends}>
+                {(trend) => (
+                  <td class="px-2 py-1 text-right font-mono">{trend?.toFixed(1) ?? '–'}</td>
+                )}
+              </For>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div class="mt-2 text-xs text-gray-500">
+        Baro columns are bias / RMSE (m) of the calibrated baro against the reference, pair columns
+        the mean calibrated difference. A trend well away from zero is an altitude-dependent error
+        that an offset cannot remove, so a slope method is justified for that instrument.
+      </div>
+
+      <div class="mt-3 flex gap-2 text-sm">
+        <For each={METRICS}>
+          {(option) => (
+            <button
+              type="button"
+              class="px-2 py-0.5 border rounded"
+              classList={{
+                'border-blue-500 bg-blue-50': metric() === option.metric,
+                'border-gray-300': metric() !== option.metric,
+              }}
+              onClick={() => setMetric(option.metric)}
+            >
+              {option.label}
+            </button>
+          )}
+        </For>
+      </div>
+      <div ref={chartRef} class="w-full" style={{ height: '320px' }} />
+    </div>
+  )
+}
@@ -1,22 +1,72 @@
 import * as echarts from 'echarts'
 import type { Component } from 'solid-js'
-import { createEffect, createSignal, For, onCleanup, onMount, Show } from 'solid-js'
-import type { CalibrationInfo, IGCFileWithMetadata, TimeRange } from '../types'
-import type { CalibrationMethod } from '../utils/baro-calibration'
 import {
-  calculateBaroCalibration,
+  createEffect,
+  createMemo,
+  createSignal,
+  For,
+  onCleanup,
+  onMount,
+  Show,
+  untrack,
+} from 'solid-js'
+import type {
+  FlightPhase,
+  GPSDatum,
+  IGCFileWithMetadata,
+  PhaseSegment,
+  QualityIssue,
+  TimeRange,
+} from '../types'
+import { type Analysis, analyzeInWorker } from '../utils/analysis-client'
+import {
+  type BaroCalibrationOptions,
+  type CalibrationMethod,
+  type ReferenceMode,
+  type TemperatureModel,
+  usesWholeFlight,
+} from '../utils/baro-calibration'
+import {
+  baroLagShifts,
   createTimeRangeFilter,
+  differencesToFirstFile,
   findCommonTimeRange,
 } from '../utils/chart-calculations'
+import type { ClockOffsetSignal } from '../utils/clock-offset'
+import { downsampleForView, nearestPoint, valueRange } from '../utils/downsample'
+import { PHASE_LABELS } from '../utils/flight-phases'
+import { getInstrumentColors } from '../utils/instrument-colors'
+import { interpolateQNH, type QNHSeries, qnhCorrectedAltitude, summarizeQNH } from '../utils/qnh'
+import { estimateNativeRate, type GridRate } from '../utils/resampling'
+import type { SessionSettings } from '../utils/session-store'
+import type { ValidationOptions } from '../utils/validation'
+import { DEFAULT_VARIO_WINDOW_SECONDS } from '../utils/vario'
+import { AltitudeBandPanel } from './AltitudeBandPanel'
 import { CalibrationInfoPanel } from './CalibrationInfo'
+import { CalibrationScatter } from './CalibrationScatter'
 import { CalibrationSettings } from './CalibrationSettings'
+import { ClockOffsetPanel } from './ClockOffsetPanel'
+import { DataQualityPanel } from './DataQualityPanel'
+import { DifferenceChart, type DifferenceSeries, LINKED_CHART_GROUP } from './DifferenceChart'
+import { DriftChart } from './DriftChart'
 import { FileInfoPanel } from './FileInfo'
+import { type FileChange, FileSelectionPanel } from './FileSelectionPanel'
+import { GPSDatumPanel } from './GPSDatumPanel'
+import { NoisePanel } from './NoisePanel'
+import { QNHPanel } from './QNHPanel'
+import { TimeWindowPanel } from './TimeWindowPanel'
+import { VarioPanel } from './VarioPanel'
 
 interface AltitudeChartProps {
-  file1Data: IGCFileWithMetadata | null
-  file2Data: IGCFileWithMetadata | null
+  files: Array<IGCFileWithMetadata>
+  // Settings to open with, read once on mount
+  settings?: SessionSettings | null
+  onSettingsChange?: (settings: SessionSettings) => void
+  onFilesChange?: (change: FileChange) => void
 }
 
+type SeriesKind = 'gps' | 'baro'
+
 interface SeriesConfig {
   name: string
   color: string
@@ -27,30 +77,102 @@ interface HoverData {
   values: Array<{ name: string; value: number; color: string }>
 }
 
-const SERIES_CONFIGS: Record<string, SeriesConfig> = {
-  gps1: { name: 'gps1', color: '#3b82f6' },
-  gps2: { name: 'gps2', color: '#10b981' },
-  baro1: { name: 'baro1', color: '#ef4444' },
-  baro2: { name: 'baro2', color: '#f97316' },
+// Worker analysis of the files with the calibration options it ran with
+interface AnalysisResult extends Analysis {
+  options: BaroCalibrationOptions
+}
+
+// Chart copies of the series thinned to about two points per pixel across the visible window;
+// the series themselves keep every point for hover and the y range
+function thinnedSeries(chartInstance: echarts.ECharts, series: Array<any>, view: TimeRange | null) {
+  const target = Math.max(2 * chartInstance.getWidth(), 1000)
+  return series.map((s) =>
+    Array.isArray(s.data) && s.data.length > target
+      ? { ...s, data: downsampleForView(s.data, view, target) }
+      : s,
+  )
+}
+
+function getSeriesConfig(kind: SeriesKind, index: number): SeriesConfig {
+  return { name: `${kind}${index + 1}`, color: getInstrumentColors(index)[kind] }
+}
+
+// Data-quality issues of one series: spikes and jumps as dots, stuck values and gaps as bands
+function createQualityMarks(
+  file: IGCFileWithMetadata,
+  issues: Array<QualityIssue>,
+  valueAt: (fixIndex: number) => number | null,
+  shiftMs: number,
+) {
+  const time = (fixIndex: number) => file.fixes[fixIndex].timestamp - shiftMs
+  const points = issues.flatMap((issue) => {
+    if (issue.kind !== 'spike' && issue.kind !== 'vertical-speed') return []
+    const value = valueAt(issue.end)
+    return value === null ? [] : [{ coord: [time(issue.end), value] }]
+  })
+  const areas = issues.flatMap((issue) =>
+    issue.kind === 'stuck' || issue.kind === 'gap'
+      ? [
+          [
+            {
+              xAxis: time(issue.start),
+              itemStyle: {
+                color:
+                  issue.kind === 'stuck' ? 'rgba(220, 38, 38, 0.12)' : 'rgba(107, 114, 128, 0.12)',
+              },
+            },
+            { xAxis: time(issue.end) },
+          ],
+        ]
+      : [],
+  )
+
+  return {
+    markPoint: {
+      symbol: 'circle',
+      symbolSize: 7,
+      itemStyle: { color: '#dc2626' },
+      label: { show: false },
+      data: points,
+    },
+    markArea: { silent: true, data: areas },
+  }
 }
 
 function createSeries(
   file: IGCFileWithMetadata,
-  seriesKey: 'gps1' | 'gps2' | 'baro1' | 'baro2',
-  calibrateFn: ((h: number) => number) | null,
+  kind: SeriesKind,
+  index: number,
+  calibrateFn: ((h: number, t: number) => number) | null,
   timeRangeFilter: (fix: any) => boolean,
+  shiftMs = 0,
+  issues: Array<QualityIssue> = [],
 ) {
-  const config = SERIES_CONFIGS[seriesKey]
-  const isGPS = seriesKey.startsWith('gps')
+  const config = getSeriesConfig(kind, index)
+  const isGPS = kind === 'gps'
+
+  const valueAt = (fixIndex: number) => {
+    const fix = file.fixes[fixIndex]
+    const altitude = isGPS ? fix.gpsAltitude : fix.pressureAltitude
+    if (altitude === null) return null
+    return isGPS || !calibrateFn ? altitude : calibrateFn(altitude, fix.timestamp - shiftMs)
+  }
 
   return {
+    ...createQualityMarks(
+      file,
+      issues.filter((issue) => issue.series === kind),
+      valueAt,
+      shiftMs,
+    ),
     name: config.name,
     type: 'line',
-    data: file.fixes.filter(timeRangeFilter).flatMap((fix) => {
+    data: file.fixes.filter(timeRangeFilter).flatMap((fix): Array<[number, number]> => {
       const altitude = isGPS ? fix.gpsAltitude : fix.pressureAltitude
       if (altitude === null) return []
-      const calibrated = isGPS || !calibrateFn ? altitude : calibrateFn(altitude)
-      return [[fix.timestamp, calibrated]]
+      const timestamp = fix.timestamp - shiftMs
+      const calibrated = isGPS || !calibrateFn ? altitude : calibrateFn(altitude, timestamp)
+      return [[timestamp, calibrated]]
     }),
     smooth: false,
     symbol: 'none',
@@ -59,6 +181,83 @@ function createSeries(
   }
 }
 
+// Raw pressure altitude re-referenced from 1013.25 hPa to the interpolated station QNH
+function createQNHSeries(
+  file: IGCFileWithMetadata,
+  index: number,
+  qnhSeries: QNHSeries,
+  timeRangeFilter: (fix: any) => boolean,
+) {
+  const config = getSeriesConfig('baro', index)
+
+  return {
+    name: `${config.name} qnh`,
+    type: 'line',
+    data: file.fixes.filter(timeRangeFilter).flatMap((fix) => {
+      if (fix.pressureAltitude === null) return []
+      const qnh = interpolateQNH(qnhSeries, fix.timestamp)
+      if (qnh === null) return []
+      return [[fix.timestamp, qnhCorrectedAltitude(fix.pressureAltitude, qnh)]]
+    }),
+    smooth: false,
+    symbol: 'none',
+    lineStyle: { width: 1.5, type: 'dashed', color: config.color },
+    itemStyle: { color: config.color },
+  }
+}
+
+const PHASE_COLORS: Record<FlightPhase, string> = {
+  'pre-flight': 'rgba(107, 114, 128, 0.10)',
+  climb: 'rgba(34, 197, 94, 0.08)',
+  cruise: 'rgba(59, 130, 246, 0.06)',
+  descent: 'rgba(249, 115, 22, 0.08)',
+  'post-flight': 'rgba(107, 114, 128, 0.10)',
+}
+
+// Data-less series that outlines the calibration and evaluation windows
+function createWindowSeries(calibration: TimeRange | null, evaluation: TimeRange | null) {
+  const area = (name: string, range: TimeRange, color: string) => [
+    { name, xAxis: range.start, itemStyle: { color, borderColor: color, borderWidth: 1 } },
+    { xAxis: range.end },
+  ]
+  return {
+    name: 'windows',
+    type: 'line',
+    data: [],
+    itemStyle: { color: '#7c3aed' },
+    markArea: {
+      silent: true,
+      label: { position: 'insideBottom', color: '#6b7280', fontSize: 10 },
+      data: [
+        ...(calibration ? [area('Calibration', calibration, 'rgba(37, 99, 235, 0.08)')] : []),
+        ...(evaluation ? [area('Evaluation', evaluation, 'rgba(124, 58, 237, 0.08)')] : []),
+      ],
+    },
+  }
+}
+
+// Data-less series that shades the flight phases, so the legend can toggle them
+function createPhaseSeries(segments: Array<PhaseSegment>) {
+  return {
+    name: 'phases',
+    type: 'line',
+    data: [],
+    itemStyle: { color: '#9ca3af' },
+    markArea: {
+      silent: true,
+      label: { position: 'insideTop', color: '#6b7280', fontSize: 10 },
+      data: segments.map((segment) => [
+        {
+          name: PHASE_LABELS[segment.phase],
+          xAxis: segment.start,
+          itemStyle: { color: PHASE_COLORS[segment.phase] },
+        },
+        { xAxis: segment.end },
+      ]),
+    },
+  }
+}
+
 function calculateYRange(
   series: Array<any>,
   xMin: number,
@@ -69,13 +268,9 @@ function calculateYRange(
 
   series.forEach((s) => {
     if (s.data && Array.isArray(s.data)) {
-      s.data.forEach((point: [number, number]) => {
-        const [x, y] = point
-        if (x >= xMin && x <= xMax) {
-          if (y < min) min = y
-          if (y > max) max = y
-        }
-      })
+      const range = valueRange(s.data, xMin, xMax)
+      min = Math.min(min, range.min)
+      max = Math.max(max, range.max)
     }
   })
 
@@ -121,10 +316,19 @@ function createChartOption(
           yAxisIndex: 'none',
           title: { zoom: 'Zoom', back: 'Reset Zoom' },
         },
+        brush: {
+          type: ['lineX', 'clear'],
+          title: { lineX: 'Select Window', clear: 'Clear Selection' },
+        },
         restore: { title: 'Restore' },
         saveAsImage: { title: 'Save as Image' },
       },
     },
+    brush: {
+      xAxisIndex: 0,
+      brushMode: 'single',
+      brushStyle: { color: 'rgba(124, 58, 237, 0.15)', borderColor: '#7c3aed', borderWidth: 1 },
+    },
     xAxis: {
       type: 'time',
       min: timeRange?.start,
@@ -164,17 +368,166 @@ function createChartOption(
 export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
   let chartRef: HTMLDivElement | undefined
   const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
-  const [calibrationInfo, setCalibrationInfo] = createSignal<CalibrationInfo | null>(null)
+  const [calibrationResult, setCalibrationResult] = createSignal<AnalysisResult | null>(null)
+  const [calculating, setCalculating] = createSignal(false)
+  const [analysisError, setAnalysisError] = createSignal('')
   const [currentSeries, setCurrentSeries] = createSignal<Array<any>>([])
+  const [differences, setDifferences] = createSignal<Array<DifferenceSeries>>([])
   const [fullTimeRange, setFullTimeRange] = createSignal<TimeRange | null>(null)
-  const [selectedMethod, setSelectedMethod] = createSignal<CalibrationMethod>('linear-alt')
+  const initial = untrack(() => props.settings)
+  const [selectedMethod, setSelectedMethod] = createSignal<CalibrationMethod>(
+    initial?.method ?? 'linear-alt',
+  )
+  const [referenceMode, setReferenceMode] = createSignal<ReferenceMode>(
+    initial?.referenceMode ?? 'avg-gps',
+  )
+  const [calibrationPhases, setCalibrationPhases] = createSignal<Array<FlightPhase> | undefined>(
+    initial?.calibrationPhases,
+  )
+  const [calibrationRange, setCalibrationRange] = createSignal<TimeRange | null>(
+    initial?.calibrationRange ?? null,
+  )
+  const [evaluationRange, setEvaluationRange] = createSignal<TimeRange | null>(
+    initial?.evaluationRange ?? null,
+  )
+  // Window brushed on the chart, else the zoomed one; null while the whole range shows
+  const [brushedRange, setBrushedRange] = createSignal<TimeRange | null>(null)
+  const [zoomedRange, setZoomedRange] = createSignal<TimeRange | null>(null)
+  // Zoom of the restored session, applied once the chart first renders
+  let pendingZoom = initial?.zoomRange ?? null
   const [hoverData, setHoverData] = createSignal<HoverData | null>(null)
+  const [gridRate, setGridRate] = createSignal<GridRate>(initial?.gridRate ?? 1)
+  const [temperature, setTemperature] = createSignal<TemperatureModel>(
+    initial?.temperature ?? { mode: 'isa' },
+  )
+  const [altitudeBinSize, setAltitudeBinSize] = createSignal(initial?.altitudeBinSize ?? 500)
+  const [errorBandSize, setErrorBandSize] = createSignal(initial?.errorBandSize ?? 250)
+  const [validation, setValidation] = createSignal<ValidationOptions>(
+    initial?.validation ?? { scheme: 'k-fold' },
+  )
+  const [lagCompensation, setLagCompensation] = createSignal(initial?.lagCompensation ?? false)
+  const [measureLag, setMeasureLag] = createSignal(initial?.measureLag ?? false)
+  const [excludeQualityIssues, setExcludeQualityIssues] = createSignal(
+    initial?.excludeQualityIssues ?? false,
+  )
+  const [offsetSignal, setOffsetSignal] = createSignal<ClockOffsetSignal>(
+    initial?.offsetSignal ?? 'vario',
+  )
+  const [offsetOverrides, setOffsetOverrides] = createSignal<Array<number | null>>(
+    initial?.offsetOverrides ?? [],
+  )
+  const [datumOverrides, setDatumOverrides] = createSignal<Array<GPSDatum | null>>(
+    initial?.datumOverrides ?? [],
+  )
+  const [qnhSeries, setQNHSeries] = createSignal<QNHSeries | null>(initial?.qnhSeries ?? null)
+  const [varioWindow, setVarioWindow] = createSignal(
+    initial?.varioWindow ?? DEFAULT_VARIO_WINDOW_SECONDS,
+  )
+
+  createEffect(() => {
+    props.onSettingsChange?.({
+      method: selectedMethod(),
+      referenceMode: referenceMode(),
+      calibrationPhases: calibrationPhases(),
+      calibrationRange: calibrationRange(),
+      evaluationRange: evaluationRange(),
+      zoomRange: zoomedRange(),
+      gridRate: gridRate(),
+      temperature: temperature(),
+      altitudeBinSize: altitudeBinSize(),
+      errorBandSize: errorBandSize(),
+      validation: validation(),
+      lagCompensation: lagCompensation(),
+      measureLag: measureLag(),
+      excludeQualityIssues: excludeQualityIssues(),
+      offsetSignal: offsetSignal(),
+      offsetOverrides: offsetOverrides(),
+      datumOverrides: datumOverrides(),
+      qnhSeries: qnhSeries(),
+      varioWindow: varioWindow(),
+    })
+  })
+
+  const setDatumOverride = (index: number, datum: GPSDatum | null) => {
+    const next = [...datumOverrides()]
+    next[index] = datum
+    setDatumOverrides(next)
+  }
+
+  const setOffsetOverride = (index: number, offsetMs: number | null) => {
+    const next = [...offsetOverrides()]
+    next[index] = offsetMs
+    setOffsetOverrides(next)
+  }
+
+  const calibrationInfo = () => calibrationResult()?.calibration ?? null
+  const clockOffsets = () => calibrationResult()?.clockOffsets ?? []
+  const qualityIssues = () => calibrationResult()?.qualityIssues ?? []
+  const varioComparison = () => calibrationResult()?.vario ?? null
+  const noiseAnalysis = () => calibrationResult()?.noise ?? null
+
+  // The analysis runs in the worker; a result that arrives after a newer request started is
+  // dropped
+  let latestRequest = 0
+  createEffect(() => {
+    const files = props.files
+    const options: BaroCalibrationOptions = {
+      method: selectedMethod(),
+      referenceMode: referenceMode(),
+      calibrationRange: calibrationRange() ?? undefined,
+      evaluationRange: evaluationRange() ?? undefined,
+      calibrationPhases: calibrationPhases(),
+      gridRate: gridRate(),
+      temperature: temperature(),
+      altitudeBinSize: altitudeBinSize(),
+      errorBandSize: errorBandSize(),
+      validation: validation(),
+      lagCompensation: lagCompensation(),
+      measureLag: measureLag(),
+      excludeQualityIssues: excludeQualityIssues(),
+      robust: true,
+    }
+    const settings = {
+      datumOverrides: datumOverrides(),
+      offsetSignal: offsetSignal(),
+      offsetOverrides: offsetOverrides(),
+      options,
+      varioWindow: varioWindow(),
+    }
+    const request = ++latestRequest
+
+    setCalculating(true)
+    analyzeInWorker(files, settings)
+      .then((analysis) => {
+        if (request !== latestRequest) return
+        setAnalysisError('')
+        setCalibrationResult({ ...analysis, options })
+      })
+      .catch((err) => {
+        if (request !== latestRequest) return
+        setAnalysisError(`Analysis failed: ${err}`)
+        console.error(err)
+      })
+      .finally(() => {
+        if (request === latestRequest) setCalculating(false)
+      })
+  })
+
+  const qnhSummary = createMemo(() => {
+    const series = qnhSeries()
+    const fixes = props.files[0]?.fixes ?? []
+    if (!series || fixes.length === 0) return null
+    return summarizeQNH(series, {
+      start: fixes[0].timestamp,
+      end: fixes[fixes.length - 1].timestamp,
+    })
+  })
 
   const updateYAxisForCurrentZoom = (chartInstance: echarts.ECharts) => {
     const option = chartInstance.getOption() as any
     const dataZoom = option.dataZoom?.[0]
-    const series = currentSeries()
-    const timeRange = fullTimeRange()
+    const series = untrack(currentSeries)
+    const timeRange = untrack(fullTimeRange)
 
     if (!dataZoom || !timeRange || series.length === 0) return
 
@@ -183,24 +536,43 @@ export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
     const totalRange = timeRange.end - timeRange.start
     const xMin = timeRange.start + (totalRange * start) / 100
     const xMax = timeRange.start + (totalRange * end) / 100
+    const view = start > 0 || end < 100 ? { start: xMin, end: xMax } : null
+    setZoomedRange(view)
 
     const yRange = calculateYRange(series, xMin, xMax)
 
-    chartInstance.setOption({ yAxis: { min: yRange.min, max: yRange.max } }, false)
+    chartInstance.setOption(
+      {
+        yAxis: { min: yRange.min, max: yRange.max },
+        series: thinnedSeries(chartInstance, series, view).map((s) => ({ data: s.data })),
+      },
+      false,
+    )
   }
 
   onMount(() => {
     if (chartRef) {
       const chartInstance = echarts.init(chartRef)
+      chartInstance.group = LINKED_CHART_GROUP
       setChart(chartInstance)
 
       chartInstance.on('dataZoom', () => {
         updateYAxisForCurrentZoom(chartInstance)
       })
 
+      chartInstance.on('brushEnd', (event: any) => {
+        const range = event.areas?.[0]?.coordRange
+        setBrushedRange(range ? { start: range[0], end: range[1] } : null)
+      })
+
+      chartInstance.on('brush', (event: any) => {
+        if (!event.areas?.length) setBrushedRange(null)
+      })
+
       chartInstance.on('restore', () => {
-        const series = currentSeries()
-        const timeRange = fullTimeRange()
+        setZoomedRange(null)
+        const series = untrack(currentSeries)
+        const timeRange = untrack(fullTimeRange)
 
         if (series.length > 0 && timeRange) {
           const initialYRange = calculateYRange(series, timeRange.start, timeRange.end)
@@ -217,51 +589,37 @@ export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
 
         if (xAxisInfo && xAxisInfo.value != null) {
           const timestamp = xAxisInfo.value
-          const option = chartInstance.getOption() as any
-          const series = option.series || []
 
           const values: Array<{ name: string; value: number; color: string }> = []
           const dataMap: Record<string, number> = {}
 
-          series.forEach((s: any) => {
+          // Full-resolution series, not the thinned chart copies
+          untrack(currentSeries).forEach((s: any) => {
             if (!s.data || !Array.isArray(s.data)) return
 
-            let closestPoint: [number, number] | null = null
-            let minDiff = Number.POSITIVE_INFINITY
-
-            s.data.forEach((point: [number, number]) => {
-              const diff = Math.abs(point[0] - timestamp)
-              if (diff < minDiff) {
-                minDiff = diff
-                closestPoint = point
-              }
-            })
-
-            if (closestPoint && minDiff < 10000) {
-              const config = SERIES_CONFIGS[s.name as keyof typeof SERIES_CONFIGS]
+            const closestPoint = nearestPoint(s.data, timestamp)
+            if (closestPoint && Math.abs(closestPoint[0] - timestamp) < 10000) {
               values.push({
                 name: s.name,
                 value: closestPoint[1],
-                color: config?.color || '#666',
+                color: s.itemStyle?.color || '#666',
               })
               dataMap[s.name] = closestPoint[1]
             }
           })
 
-          if (dataMap.gps2 !== undefined && dataMap.gps1 !== undefined) {
-            values.push({
-              name: 'gps2 - gps1',
-              value: dataMap.gps2 - dataMap.gps1,
-              color: '#6b7280',
-            })
-          }
-
-          if (dataMap.baro2 !== undefined && dataMap.baro1 !== undefined) {
-            values.push({
-              name: 'baro2 - baro1',
-              value: dataMap.baro2 - dataMap.baro1,
-              color: '#6b7280',
-            })
+          // Differences are shown relative to the first file
+          for (const [name, value] of Object.entries(dataMap)) {
+            const match = /^(gps|baro)(\d+)$/.exec(name)
+            if (!match || match[2] === '1') continue
+            const first = dataMap[`${match[1]}1`]
+            if (first !== undefined) {
+              values.push({
+                name: `${name} - ${match[1]}1`,
+                value: value - first,
+                color: '#6b7280',
+              })
+            }
           }
 
           setHoverData({ timestamp, values })
@@ -278,6 +636,8 @@ export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
       onCleanup(() => {
         window.removeEventListener('resize', handleResize)
         chartInstance.off('dataZoom')
+        chartInstance.off('brushEnd')
+        chartInstance.off('brush')
         chartInstance.off('restore')
         chartInstance.off('updateAxisPointer')
         chartInstance.dispose()
@@ -287,84 +647,214 @@ export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
 
   createEffect(() => {
     const chartInstance = chart()
-    if (!chartInstance) return
+    const result = calibrationResult()
+    if (!chartInstance || !result) return
 
-    const file1 = props.file1Data
-    const file2 = props.file2Data
-    const method = selectedMethod()
+    const { files, calibration, options } = result
+    const method = options.method ?? 'linear-alt'
+    const qnh = qnhSeries()
 
-    if (!file1 && !file2) {
+    if (files.every((file) => file.fixes.length === 0)) {
       chartInstance.clear()
-      setCalibrationInfo(null)
       setCurrentSeries([])
+      setDifferences([])
       setFullTimeRange(null)
       return
     }
 
-    let calibration: CalibrationInfo | null = null
-    let timeRange: TimeRange | null = null
-
-    if (file1 && file2 && file1.fixes.length > 0 && file2.fixes.length > 0) {
-      const useAllShared = method === 'linear-alt' || method === 'linear-press'
-
-      calibration = calculateBaroCalibration(file1, file2, {
-        method,
-        referenceMode: 'avg-gps',
-        useAllShared,
-        calibrationSeconds: 60,
-        robust: true,
-      })
-
-      setCalibrationInfo(calibration)
-      timeRange = findCommonTimeRange(file1, file2)
-    } else {
-      setCalibrationInfo(null)
-    }
+    const timeRange = calibration ? findCommonTimeRange(files) : null
 
     const timeRangeFilter = createTimeRangeFilter(timeRange)
+    const lagShifts = calibration ? baroLagShifts(calibration.lag) : []
 
     const series: Array<any> = []
-
-    if (file1 && file1.fixes.length > 0) {
-      series.push(createSeries(file1, 'gps1', null, timeRangeFilter))
-      series.push(
-        createSeries(file1, 'baro1', calibration?.calibrateBaro1 ?? null, timeRangeFilter),
-      )
-    }
-
-    if (file2 && file2.fixes.length > 0) {
-      series.push(createSeries(file2, 'gps2', null, timeRangeFilter))
-      series.push(
-        createSeries(file2, 'baro2', calibration?.calibrateBaro2 ?? null, timeRangeFilter),
+    // Altitude series by name, for the differences below
+    const byName = new Map<string, Array<[number, number]>>()
+
+    const issues = qualityIssues()
+
+    // Tracks from other formats may lack one altitude kind; they get no empty series
+    files.forEach((file, i) => {
+      if (file.fixes.some((fix) => fix.gpsAltitude !== null)) {
+        const gps = createSeries(file, 'gps', i, null, timeRangeFilter, 0, issues[i])
+        byName.set(gps.name, gps.data)
+        series.push(gps)
+      }
+      if (!file.fixes.some((fix) => fix.pressureAltitude !== null)) return
+      const baro = createSeries(
+        file,
+        'baro',
+        i,
+        calibration?.instruments[i].calibrateBaro ?? null,
+        timeRangeFilter,
+        lagShifts[i],
+        issues[i],
       )
+      byName.set(baro.name, baro.data)
+      series.push(baro)
+      if (qnh) {
+        series.push(createQNHSeries(file, i, qnh, timeRangeFilter))
+      }
+    })
+
+    if (calibration) {
+      series.push(createPhaseSeries(calibration.phases.segments))
+      // The calibration window is drawn whenever the fit does not cover the whole span
+      const calibrationWindow =
+        options.calibrationRange || !usesWholeFlight(method) ? calibration.calibrationRange : null
+      const evaluationWindow = options.evaluationRange ? calibration.evaluationRange : null
+      if (calibrationWindow || evaluationWindow) {
+        series.push(createWindowSeries(calibrationWindow, evaluationWindow))
+      }
     }
 
     setCurrentSeries(series)
     setFullTimeRange(timeRange)
 
+    // Calibrated baro and GPS of every other file minus the first, over the common range
+    setDifferences(
+      calibration
+        ? differencesToFirstFile(byName, files.length).map(({ kind, index, data }) => {
+            const config = getSeriesConfig(kind, index)
+            return { name: `${config.name} - ${kind}1`, color: config.color, data }
+          })
+        : [],
+    )
+
     const initialYRange = timeRange
       ? calculateYRange(series, timeRange.start, timeRange.end)
       : { min: undefined, max: undefined }
 
-    const option = createChartOption(series, timeRange, initialYRange.min, initialYRange.max)
+    const option = createChartOption(
+      thinnedSeries(chartInstance, series, null),
+      timeRange,
+      initialYRange.min,
+      initialYRange.max,
+    )
     chartInstance.setOption(option, true)
+    // Replacing the option resets the zoom and clears the brush
+    setBrushedRange(null)
+    setZoomedRange(null)
+    if (pendingZoom && timeRange) {
+      chartInstance.dispatchAction({
+        type: 'dataZoom',
+        startValue: pendingZoom.start,
+        endValue: pendingZoom.end,
+      })
+    }
+    pendingZoom = null
   })
 
   return (
     <div class="w-full space-y-4">
-      <Show when={props.file1Data && props.file2Data}>
-        <CalibrationSettings selectedMethod={selectedMethod()} onMethodChange={setSelectedMethod} />
+      <Show when={props.onFilesChange}>
+        {(onFilesChange) => (
+          <FileSelectionPanel
+            files={props.files}
+            referenceMode={referenceMode()}
+            onReferenceModeChange={setReferenceMode}
+            onFilesChange={onFilesChange()}
+          />
+        )}
+      </Show>
+
+      <Show when={props.files.length >= 2}>
+        <CalibrationSettings
+          selectedMethod={selectedMethod()}
+          onMethodChange={setSelectedMethod}
+          calibrationRange={calibrationRange()}
+          calibrationPhases={calibrationPhases()}
+          onCalibrationPhasesChange={setCalibrationPhases}
+          gridRate={gridRate()}
+          nativeRate={estimateNativeRate(props.files)}
+          onGridRateChange={setGridRate}
+          temperature={temperature()}
+          onTemperatureChange={setTemperature}
+          altitudeBinSize={altitudeBinSize()}
+          onAltitudeBinSizeChange={setAltitudeBinSize}
+          validation={validation()}
+          onValidationChange={setValidation}
+          lagCompensation={lagCompensation()}
+          onLagCompensationChange={setLagCompensation}
+          measureLag={measureLag()}
+          onMeasureLagChange={setMeasureLag}
+        />
+        <ClockOffsetPanel
+          estimates={clockOffsets()}
+          overrides={offsetOverrides()}
+          signal={offsetSignal()}
+          onOverrideChange={setOffsetOverride}
+          onSignalChange={setOffsetSignal}
+        />
       </Show>
 
       <Show when={calibrationInfo()}>
         <CalibrationInfoPanel info={calibrationInfo()!} method={selectedMethod()} />
+        <Show when={noiseAnalysis()}>{(analysis) => <NoisePanel analysis={analysis()} />}</Show>
+        <CalibrationScatter info={calibrationInfo()!} method={selectedMethod()} />
+        <AltitudeBandPanel
+          altitudeBands={calibrationInfo()!.altitudeBands}
+          onSizeChange={setErrorBandSize}
+        />
+      </Show>
+
+      <Show when={calibrationInfo()?.instruments.some((instrument) => instrument.driftCurve)}>
+        <DriftChart instruments={calibrationInfo()!.instruments} />
+      </Show>
+
+      <Show when={varioComparison()}>
+        {(comparison) => (
+          <VarioPanel
+            comparison={comparison()}
+            timeRange={fullTimeRange()}
+            onWindowChange={setVarioWindow}
+          />
+        )}
+      </Show>
+
+      <QNHPanel series={qnhSeries()} summary={qnhSummary()} onSeriesChange={setQNHSeries} />
+
+      <DataQualityPanel
+        files={props.files}
+        issues={qualityIssues()}
+        exclude={excludeQualityIssues()}
+        onExcludeChange={setExcludeQualityIssues}
+      />
+
+      <GPSDatumPanel
+        files={props.files}
+        overrides={datumOverrides()}
+        onOverrideChange={setDatumOverride}
+      />
+
+      <FileInfoPanel files={props.files} />
+
+      <Show when={calibrationInfo()}>
+        <TimeWindowPanel
+          selection={brushedRange() ?? zoomedRange()}
+          calibrationRange={calibrationRange()}
+          evaluationRange={evaluationRange()}
+          wholeFlight={usesWholeFlight(selectedMethod())}
+          onCalibrationRangeChange={setCalibrationRange}
+          onEvaluationRangeChange={setEvaluationRange}
+        />
       </Show>
 
-      <FileInfoPanel file1Data={props.file1Data} file2Data={props.file2Data} />
+      <Show when={analysisError()}>
+        <div class="text-red-600 bg-red-50 p-3 rounded border border-red-200">
+          {analysisError()}
+        </div>
+      </Show>
 
       <div class="relative">
         <div ref={chartRef} class="w-full" style={{ height: '600px' }} />
 
+        <Show when={calculating()}>
+          <div class="absolute top-4 left-4 px-2 py-1 text-sm text-gray-600 bg-white/90 border border-gray-200 rounded">
+            Calculating…
+          </div>
+        </Show>
+
         <Show when={hoverData()}>
           <div class="absolute top-4 right-4 bg-white/95 dark:bg-gray-800/95 backdrop-blur-sm border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg p-3 min-w-[200px]">
             <div class="font-semibold text-sm mb-2 text-gray-700 dark:text-gray-300">
@@ -388,6 +878,10 @@ export const AltitudeChart: Component<AltitudeChartProps> = (props) => {
           </div>
         </Show>
       </div>
+
+      <Show when={differences().length > 0}>
+        <DifferenceChart series={differences()} timeRange={fullTimeRange()} />
+      </Show>
     </div>
   )
 }
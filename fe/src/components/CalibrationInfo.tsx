@@ -1,7 +1,11 @@
 import type { Component } from 'solid-js'
-import { For, Show } from 'solid-js'
-import type { CalibrationInfo } from '../types'
+import { createSignal, For, Show } from 'solid-js'
+import type { BaroLag, CalibrationInfo, FlightPhase, InstrumentCalibration } from '../types'
 import type { CalibrationMethod } from '../utils/baro-calibration'
+import { PHASE_LABELS } from '../utils/flight-phases'
+import { MIN_LAG_CORRELATION } from '../utils/vario'
+import { DifferenceMatrixTable } from './DifferenceMatrix'
+import { ValidationTable } from './ValidationTable'
 
 interface CalibrationInfoProps {
   info: CalibrationInfo
@@ -14,147 +18,182 @@ interface Parameter {
   format?: (v: number) => string
 }
 
-export const CalibrationInfoPanel: Component<CalibrationInfoProps> = (props) => {
-  const baro1Params = (): Array<Parameter> => {
-    const params: Array<Parameter> = []
-
-    if (props.info.baro1Slope !== undefined) {
-      params.push({
-        label: 'Altitude Slope',
-        value: props.info.baro1Slope,
-        format: (v) => v.toFixed(6),
-      })
-    }
-    if (props.info.baro1Offset !== undefined) {
-      params.push({
-        label: 'Altitude Offset',
-        value: props.info.baro1Offset,
-        format: (v) => v.toFixed(2),
-      })
-    }
-    if (props.info.baro1PressureSlope !== undefined) {
-      params.push({
-        label: 'Pressure Slope',
-        value: props.info.baro1PressureSlope,
-        format: (v) => v.toFixed(6),
-      })
-    }
-    if (props.info.baro1PressureOffsetPa !== undefined) {
-      params.push({
-        label: 'Pressure Offset',
-        value: props.info.baro1PressureOffsetPa,
-        format: (v) => v.toFixed(2),
-      })
-    }
+function instrumentParams(instrument: InstrumentCalibration): Array<Parameter> {
+  const params: Array<Parameter> = []
 
-    return params
+  if (instrument.slope !== undefined) {
+    params.push({
+      label: 'Altitude Slope',
+      value: instrument.slope,
+      format: (v) => v.toFixed(6),
+    })
+  }
+  if (instrument.offset !== undefined) {
+    params.push({
+      label: 'Altitude Offset',
+      value: instrument.offset,
+      format: (v) => v.toFixed(2),
+    })
+  }
+  if (instrument.pressureSlope !== undefined) {
+    params.push({
+      label: 'Pressure Slope',
+      value: instrument.pressureSlope,
+      format: (v) => v.toFixed(6),
+    })
+  }
+  if (instrument.pressureOffsetPa !== undefined) {
+    params.push({
+      label: instrument.driftCurve ? 'Pressure Offset (start)' : 'Pressure Offset',
+      value: instrument.pressureOffsetPa,
+      format: (v) => v.toFixed(2),
+    })
+  }
+  if (instrument.pressureQuadratic !== undefined) {
+    params.push({
+      label: 'Pressure Quadratic',
+      value: instrument.pressureQuadratic,
+      format: (v) => v.toExponential(4),
+    })
+  }
+  for (const segment of instrument.altitudeSegments ?? []) {
+    params.push({
+      label: `Slope ${segment.from.toFixed(0)}–${segment.to.toFixed(0)} m`,
+      value: segment.slope,
+      format: (v) => v.toFixed(6),
+    })
+  }
+  if (instrument.driftRatePaPerHour !== undefined) {
+    params.push({
+      label: 'Drift Rate',
+      value: instrument.driftRatePaPerHour,
+      format: (v) => `${v.toFixed(1)} Pa/h`,
+    })
+  }
+  if (instrument.driftCurve && instrument.driftCurve.length > 0) {
+    const offsets = instrument.driftCurve.map((p) => p.offsetPa)
+    params.push({
+      label: 'Drift Range',
+      value: Math.max(...offsets) - Math.min(...offsets),
+      format: (v) => `${v.toFixed(1)} Pa`,
+    })
   }
 
-  const baro2Params = (): Array<Parameter> => {
-    const params: Array<Parameter> = []
+  return params
+}
 
-    if (props.info.baro2Slope !== undefined) {
-      params.push({
-        label: 'Altitude Slope',
-        value: props.info.baro2Slope,
-        format: (v) => v.toFixed(6),
-      })
-    }
-    if (props.info.baro2Offset !== undefined) {
-      params.push({
-        label: 'Altitude Offset',
-        value: props.info.baro2Offset,
-        format: (v) => v.toFixed(2),
-      })
-    }
-    if (props.info.baro2PressureSlope !== undefined) {
-      params.push({
-        label: 'Pressure Slope',
-        value: props.info.baro2PressureSlope,
-        format: (v) => v.toFixed(6),
-      })
-    }
-    if (props.info.baro2PressureOffsetPa !== undefined) {
-      params.push({
-        label: 'Pressure Offset',
-        value: props.info.baro2PressureOffsetPa,
-        format: (v) => v.toFixed(2),
-      })
-    }
+function formatLag(lag: BaroLag | null): string {
+  if (!lag) return '–'
+  const seconds = `${lag.lagMs >= 0 ? '+' : ''}${(lag.lagMs / 1000).toFixed(2)} s`
+  return lag.correlation < MIN_LAG_CORRELATION ? `${seconds} (unreliable)` : seconds
+}
 
-    return params
-  }
+export const CalibrationInfoPanel: Component<CalibrationInfoProps> = (props) => {
+  const labels = (prefix: string) => props.info.instruments.map((_, i) => `${prefix}${i + 1}`)
+  const [phase, setPhase] = createSignal<FlightPhase | 'all'>('all')
+
+  // Whole-span statistics, or those of the selected phase while the flight still has it
+  const phaseAnalytics = () => props.info.phases.analytics.find((a) => a.phase === phase())
+  const matrices = () => phaseAnalytics() ?? props.info
 
   return (
     <div class="mb-4 space-y-4">
       {/* Calibration Parameters */}
-      <div class="p-4 bg-blue-50 border border-blue-200 rounded-lg h-30">
+      <div class="p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <div class="text-sm font-semibold text-blue-900 mb-2">Calibration Parameters:</div>
-        <div class="grid grid-cols-2 gap-4">
-          {/* Baro1 */}
-          <div class="space-y-1">
-            <div class="text-xs font-semibold text-blue-800">Baro1:</div>
-            <For each={baro1Params()}>
-              {(param) => (
-                <div class="text-xs text-blue-700">
-                  {param.label}: {param.format ? param.format(param.value!) : param.value}
-                </div>
-              )}
-            </For>
+        <div
+          class="grid gap-4"
+          style={{
+            'grid-template-columns': `repeat(${Math.min(props.info.instruments.length, 4)}, minmax(0, 1fr))`,
+          }}
+        >
+          <For each={props.info.instruments}>
+            {(instrument, i) => (
+              <div class="space-y-1">
+                <div class="text-xs font-semibold text-blue-800">Baro{i() + 1}:</div>
+                <For each={instrumentParams(instrument)}>
+                  {(param) => (
+                    <div class="text-xs text-blue-700">
+                      {param.label}: {param.format ? param.format(param.value!) : param.value}
+                    </div>
+                  )}
+                </For>
+                <Show when={props.info.lag}>
+                  {(lag) => (
+                    <>
+                      <div class="text-xs text-blue-700">
+                        Lag vs GPS{i() + 1}: {formatLag(lag().toGps[i()])}
+                        {lag().compensated ? ' (compensated)' : ''}
+                      </div>
+                      <For each={lag().baroMatrix[i()]}>
+                        {(baroLag, j) => (
+                          <Show when={j() !== i()}>
+                            <div class="text-xs text-blue-700">
+                              Lag vs Baro{j() + 1}: {formatLag(baroLag)}
+                            </div>
+                          </Show>
+                        )}
+                      </For>
+                    </>
+                  )}
+                </Show>
+              </div>
+            )}
+          </For>
+        </div>
+        <Show when={props.method.endsWith('-press')}>
+          <div class="mt-2 text-xs text-blue-700">
+            Atmosphere: T0 = {props.info.atmosphere.seaLevelTemperature.toFixed(1)} K (ISA{' '}
+            {props.info.atmosphere.isaDeviation >= 0 ? '+' : ''}
+            {props.info.atmosphere.isaDeviation.toFixed(1)} K
+            {props.info.atmosphere.estimated ? ', estimated from slope' : ''})
           </div>
+        </Show>
+      </div>
 
-          {/* Baro2 */}
-          <div class="space-y-1">
-            <div class="text-xs font-semibold text-blue-800">Baro2:</div>
-            <For each={baro2Params()}>
-              {(param) => (
-                <div class="text-xs text-blue-700">
-                  {param.label}: {param.format ? param.format(param.value!) : param.value}
-                </div>
-              )}
-            </For>
-          </div>
-        </div>
+      <ValidationTable validation={props.info.validation} />
+
+      <div class="flex flex-wrap items-center gap-2 text-sm">
+        <span class="font-medium text-gray-700">Flight phase:</span>
+        <button
+          type="button"
+          class="px-2 py-0.5 border rounded"
+          classList={{
+            'border-blue-500 bg-blue-50': phaseAnalytics() === undefined,
+            'border-gray-300': phaseAnalytics() !== undefined,
+          }}
+          onClick={() => setPhase('all')}
+        >
+          All
+        </button>
+        <For each={props.info.phases.analytics}>
+          {(analytics) => (
+            <button
+              type="button"
+              class="px-2 py-0.5 border rounded"
+              classList={{
+                'border-blue-500 bg-blue-50': phaseAnalytics() === analytics,
+                'border-gray-300': phaseAnalytics() !== analytics,
+              }}
+              onClick={() => setPhase(analytics.phase)}
+            >
+              {PHASE_LABELS[analytics.phase]} ({(analytics.seconds / 60).toFixed(0)} min)
+            </button>
+          )}
+        </For>
       </div>
 
       <div class="flex gap-4">
-        {/* Barometric Sensors Comparison */}
-        <div class="flex-1 p-4 bg-gray-50 border border-gray-200 rounded">
-          <h3 class="font-semibold text-gray-900 mb-3">Calibrated Baro1 vs Baro2 Difference</h3>
-          <div class="text-sm space-y-1.5">
-            <div class="flex justify-between">
-              <span class="text-gray-600">Mean difference:</span>
-              <strong>{Math.abs(props.info.baroAnalytics.meanDifference).toFixed(1)}</strong>
-            </div>
-            <div class="flex justify-between">
-              <span class="text-gray-600">Max difference:</span>
-              <strong>{props.info.baroAnalytics.maxDifference.toFixed(1)}</strong>
-            </div>
-            <div class="flex justify-between">
-              <span class="text-gray-600">95th percentile:</span>
-              <strong>{props.info.baroAnalytics.percentile95.toFixed(1)}</strong>
-            </div>
-          </div>
-        </div>
-
-        {/* GPS Comparison */}
-        <div class="flex-1 p-4 bg-gray-50 border border-gray-200 rounded">
-          <h3 class="font-semibold text-gray-900 mb-3">GPS1 vs GPS2 Difference</h3>
-          <div class="text-sm space-y-1.5">
-            <div class="flex justify-between">
-              <span class="text-gray-600">Mean difference:</span>
-              <strong>{Math.abs(props.info.gpsAnalytics.meanDifference).toFixed(1)}</strong>
-            </div>
-            <div class="flex justify-between">
-              <span class="text-gray-600">Max difference:</span>
-              <strong>{props.info.gpsAnalytics.maxDifference.toFixed(1)}</strong>
-            </div>
-            <div class="flex justify-between">
-              <span class="text-gray-600">95th percentile:</span>
-              <strong>{props.info.gpsAnalytics.percentile95.toFixed(1)}</strong>
-            </div>
-          </div>
-        </div>
+        <DifferenceMatrixTable
+          title="Calibrated Baro Differences"
+          labels={labels('Baro')}
+          matrix={matrices().baroMatrix}
+        />
+        <DifferenceMatrixTable
+          title="GPS Differences"
+          labels={labels('GPS')}
+          matrix={matrices().gpsMatrix}
+        />
       </div>
     </div>
   )
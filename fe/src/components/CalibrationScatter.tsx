@@ -0,0 +1,182 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createSignal, For, onCleanup, onMount } from 'solid-js'
+import type { CalibrationInfo } from '../types'
+import { type CalibrationMethod, pressureFromAltitudeISA } from '../utils/baro-calibration'
+import { getInstrumentColors } from '../utils/instrument-colors'
+
+interface CalibrationScatterProps {
+  info: CalibrationInfo
+  method: CalibrationMethod
+}
+
+// Points per category drawn at most, the rest are thinned out evenly
+const MAX_SCATTER_POINTS = 3000
+
+// Weights above this count as fully used by the fit
+const FULL_WEIGHT = 0.999
+
+const CURVE_POINTS = 100
+
+function thin<T>(items: Array<T>): Array<T> {
+  if (items.length <= MAX_SCATTER_POINTS) return items
+  const step = items.length / MAX_SCATTER_POINTS
+  return Array.from({ length: MAX_SCATTER_POINTS }, (_, k) => items[Math.floor(k * step)])
+}
+
+// Calibration pairs of one baro against the reference, with the fitted function on top
+export const CalibrationScatter: Component<CalibrationScatterProps> = (props) => {
+  let chartRef: HTMLDivElement | undefined
+  const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
+  const [selected, setSelected] = createSignal(0)
+  const [showDifference, setShowDifference] = createSignal(false)
+
+  onMount(() => {
+    if (chartRef) {
+      const chartInstance = echarts.init(chartRef)
+      setChart(chartInstance)
+
+      const handleResize = () => chartInstance.resize()
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        chartInstance.dispose()
+      })
+    }
+  })
+
+  createEffect(() => {
+    const chartInstance = chart()
+    if (!chartInstance) return
+
+    const index = Math.min(selected(), props.info.instruments.length - 1)
+    const instrument = props.info.instruments[index]
+    const { raw, reference, weights } = instrument.fitPoints
+    const inPressure = props.method.endsWith('-press')
+    const t0 = props.info.atmosphere.seaLevelTemperature
+    const difference = showDifference()
+
+    // Raw altitudes are ISA pressure altitudes; the reference side uses the fitted atmosphere
+    const toX = (h: number) => (inPressure ? pressureFromAltitudeISA(h) / 100 : h)
+    const toY = (h: number) => (inPressure ? pressureFromAltitudeISA(h, undefined, t0) / 100 : h)
+    const point = (hRaw: number, hRef: number): [number, number] => {
+      const x = toX(hRaw)
+      const y = toY(hRef)
+      return [x, difference ? y - x : y]
+    }
+
+    const used: Array<[number, number]> = []
+    const downWeighted: Array<[number, number]> = []
+    const pruned: Array<[number, number]> = []
+    raw.forEach((h, i) => {
+      const target = weights[i] === 0 ? pruned : weights[i] < FULL_WEIGHT ? downWeighted : used
+      target.push(point(h, reference[i]))
+    })
+
+    // Drift methods have a time-dependent fit, drawn at the start and end of the flight
+    const hMin = raw.reduce((m, h) => Math.min(m, h), Number.POSITIVE_INFINITY)
+    const hMax = raw.reduce((m, h) => Math.max(m, h), Number.NEGATIVE_INFINITY)
+    const curveTimes = instrument.driftCurve
+      ? [
+          { label: 'fit (start)', t: instrument.driftCurve[0].timestamp },
+          {
+            label: 'fit (end)',
+            t: instrument.driftCurve[instrument.driftCurve.length - 1].timestamp,
+          },
+        ]
+      : [{ label: 'fit', t: 0 }]
+    const curves =
+      raw.length === 0
+        ? []
+        : curveTimes.map(({ label, t }, k) => ({
+            name: label,
+            type: 'line',
+            data: Array.from({ length: CURVE_POINTS }, (_, j) => {
+              const h = hMin + ((hMax - hMin) * j) / (CURVE_POINTS - 1)
+              return point(h, instrument.calibrateBaro(h, t))
+            }),
+            symbol: 'none',
+            lineStyle: { width: 2, color: '#111827', type: k === 0 ? 'solid' : 'dashed' },
+            itemStyle: { color: '#111827' },
+          }))
+
+    const color = getInstrumentColors(index).baro
+    const scatter = (name: string, data: Array<[number, number]>, itemColor: string) => ({
+      name,
+      type: 'scatter',
+      data: thin(data),
+      symbolSize: 4,
+      large: true,
+      itemStyle: { color: itemColor, opacity: 0.6 },
+    })
+    const series = [
+      scatter('used', used, color),
+      scatter('down-weighted', downWeighted, '#f59e0b'),
+      scatter('pruned', pruned, '#dc2626'),
+      ...curves,
+    ]
+
+    const unit = inPressure ? 'hPa' : 'm'
+    const decimals = inPressure ? 2 : 1
+    chartInstance.setOption(
+      {
+        tooltip: {
+          trigger: 'item',
+          formatter: (p: any) =>
+            `${p.seriesName}<br/>${p.value[0].toFixed(decimals)} → ${p.value[1].toFixed(decimals)} ${unit}`,
+        },
+        legend: { data: series.map((s) => s.name), top: 0 },
+        grid: { left: '3%', right: '4%', bottom: 10, top: 40, containLabel: true },
+        xAxis: {
+          type: 'value',
+          name: inPressure ? 'Raw pressure (hPa)' : 'Raw baro altitude (m)',
+          nameLocation: 'middle',
+          nameGap: 25,
+          scale: true,
+        },
+        yAxis: {
+          type: 'value',
+          name: `${inPressure ? 'Reference pressure' : 'Reference altitude'}${difference ? ' − raw' : ''} (${unit})`,
+          scale: true,
+        },
+        series,
+      },
+      true,
+    )
+  })
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-2">
+        <h3 class="font-semibold text-gray-900">Calibration Fit</h3>
+        <div class="flex items-center gap-3 text-sm">
+          <For each={props.info.instruments}>
+            {(_, i) => (
+              <button
+                type="button"
+                class="px-2 py-0.5 border rounded"
+                classList={{
+                  'border-blue-500 bg-blue-50': selected() === i(),
+                  'border-gray-300': selected() !== i(),
+                }}
+                onClick={() => setSelected(i())}
+              >
+                Baro{i() + 1}
+              </button>
+            )}
+          </For>
+          <label class="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showDifference()}
+              onChange={(e) => setShowDifference(e.currentTarget.checked)}
+            />
+            Reference − raw
+          </label>
+        </div>
+      </div>
+      <div ref={chartRef} class="w-full" style={{ height: '320px' }} />
+    </div>
+  )
+}
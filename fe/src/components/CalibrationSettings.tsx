@@ -1,11 +1,25 @@
 import type { Component } from 'solid-js'
-import { For } from 'solid-js'
-import type { CalibrationMethod } from '../utils/baro-calibration'
+import { For, Show } from 'solid-js'
+import type { FlightPhase, TimeRange } from '../types'
+import {
+  type CalibrationMethod,
+  DEFAULT_ONE_POINT_SECONDS,
+  type TemperatureMode,
+  type TemperatureModel,
+  usesWholeFlight,
+} from '../utils/baro-calibration'
+import { AIRBORNE_PHASES } from '../utils/flight-phases'
+import type { GridRate } from '../utils/resampling'
+import {
+  DEFAULT_VALIDATION_FOLDS,
+  type ValidationOptions,
+  type ValidationScheme,
+} from '../utils/validation'
 
 interface CalibrationOption {
   method: CalibrationMethod
   label: string
-  description: string
+  description: (span: string) => string // `span` is where the method fits
   recommended?: boolean
 }
 
@@ -14,36 +28,112 @@ const CALIBRATION_OPTIONS: Array<CalibrationOption> = [
   {
     method: '1pt-offset-alt',
     label: '1-Point Offset (Alt)',
-    description: 'Constant offset in altitude using first 60 sec',
+    description: (span) => `Constant offset in altitude using ${span}`,
   },
   {
     method: '1pt-offset-press',
     label: '1-Point Offset (Press)',
-    description: 'Constant offset in pressure space (Pa) using first 60 sec',
+    description: (span) => `Constant offset in pressure space (Pa) using ${span}`,
   },
   {
     method: '1pt-scale-press',
     label: '1-Point Scale (Press)',
-    description: 'Constant scale factor in pressure space using first 60 sec',
+    description: (span) => `Constant scale factor in pressure space using ${span}`,
   },
   // Linear (multi-point) methods second
   {
     method: 'linear-alt',
     label: 'Linear Fit (Alt)',
-    description: 'Fits altitude for scale + offset across entire flight',
+    description: (span) => `Fits altitude for scale + offset across ${span}`,
   },
   {
     method: 'linear-press',
     label: 'Linear Fit (Press)',
-    description: 'Fits in pressure space (Pa) using scale + offset across entire flight',
+    description: (span) => `Fits in pressure space (Pa) using scale + offset across ${span}`,
+  },
+  // Higher-order methods
+  {
+    method: 'quadratic-press',
+    label: 'Quadratic Fit (Press)',
+    description: (span) => `Fits a quadratic in pressure space (Pa) across ${span}`,
+  },
+  {
+    method: 'piecewise-alt',
+    label: 'Piecewise Fit (Alt)',
+    description: () => 'Continuous piecewise-linear altitude fit, one segment per altitude band',
+  },
+  // Time-varying (drift) methods last
+  {
+    method: 'drift-linear-press',
+    label: 'Linear Drift (Press)',
+    description: (span) => `Pressure offset (Pa) changing linearly in time across ${span}`,
+  },
+  {
+    method: 'drift-spline-press',
+    label: 'Spline Drift (Press)',
+    description: (span) => `Pressure offset (Pa) following a smooth spline in time across ${span}`,
   },
 ]
 
+// Where a method fits: the calibration range when one is set, else the whole flight or, for
+// 1-point methods, its first seconds
+function fitSpan(method: CalibrationMethod, range: TimeRange | null): string {
+  if (range) {
+    const minutes = (range.end - range.start) / 60_000
+    return `the calibration window (${minutes.toFixed(1)} min)`
+  }
+  return usesWholeFlight(method) ? 'entire flight' : `first ${DEFAULT_ONE_POINT_SECONDS} sec`
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  const n = Number.parseFloat(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
 interface CalibrationSettingsProps {
   selectedMethod: CalibrationMethod
   onMethodChange: (method: CalibrationMethod) => void
+  calibrationRange: TimeRange | null
+  calibrationPhases: Array<FlightPhase> | undefined
+  onCalibrationPhasesChange: (phases: Array<FlightPhase> | undefined) => void
+  gridRate: GridRate
+  nativeRate: number
+  onGridRateChange: (gridRate: GridRate) => void
+  temperature: TemperatureModel
+  onTemperatureChange: (temperature: TemperatureModel) => void
+  altitudeBinSize: number
+  onAltitudeBinSizeChange: (binSize: number) => void
+  validation: ValidationOptions
+  onValidationChange: (validation: ValidationOptions) => void
+  lagCompensation: boolean
+  onLagCompensationChange: (enabled: boolean) => void
+  measureLag: boolean
+  onMeasureLagChange: (enabled: boolean) => void
 }
 
+const TEMPERATURE_MODES: Array<{ mode: TemperatureMode; label: string }> = [
+  { mode: 'isa', label: 'ISA' },
+  { mode: 'ground-temp', label: 'Ground temperature' },
+  { mode: 'isa-deviation', label: 'ISA deviation' },
+  { mode: 'estimate', label: 'Estimate from slope' },
+]
+
+const CALIBRATION_PHASE_OPTIONS: Array<{ phases: Array<FlightPhase> | undefined; label: string }> =
+  [
+    { phases: undefined, label: 'Whole shared span' },
+    { phases: ['pre-flight'], label: 'Ground before takeoff (zero at launch)' },
+    { phases: ['pre-flight', 'post-flight'], label: 'Ground before and after the flight' },
+    { phases: AIRBORNE_PHASES, label: 'In flight only' },
+  ]
+
+const phasesKey = (phases: Array<FlightPhase> | undefined) => phases?.join(',') ?? ''
+
+const VALIDATION_SCHEMES: Array<{ scheme: ValidationScheme; label: string }> = [
+  { scheme: 'none', label: 'Off (in-sample only)' },
+  { scheme: 'k-fold', label: 'k-fold (5 min blocks)' },
+  { scheme: 'time-block', label: 'Contiguous time blocks' },
+]
+
 export const CalibrationSettings: Component<CalibrationSettingsProps> = (props) => {
   return (
     <div class="mb-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
@@ -81,7 +171,229 @@ export const CalibrationSettings: Component<CalibrationSettingsProps> = (props)
       </div>
 
       <div class="text-sm text-gray-600 mb-1 p-2 bg-gray-50 rounded">
-        {CALIBRATION_OPTIONS.find((opt) => opt.method === props.selectedMethod)?.description}
+        {CALIBRATION_OPTIONS.find((opt) => opt.method === props.selectedMethod)?.description(
+          fitSpan(props.selectedMethod, props.calibrationRange),
+        )}
+        <Show when={props.selectedMethod === 'piecewise-alt'}>
+          <label class="ml-3 inline-flex items-center gap-1.5">
+            Band width
+            <input
+              type="number"
+              min="50"
+              step="50"
+              class="w-20 border border-gray-300 rounded px-2 py-0.5"
+              value={props.altitudeBinSize}
+              onChange={(e) => {
+                const binSize = parseOptionalNumber(e.currentTarget.value)
+                if (binSize !== undefined && binSize > 0) props.onAltitudeBinSizeChange(binSize)
+              }}
+            />
+            m
+          </label>
+        </Show>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <span class="font-medium text-gray-700">Calibrate on:</span>
+        <select
+          class="border border-gray-300 rounded px-2 py-1"
+          value={phasesKey(props.calibrationPhases)}
+          onChange={(e) =>
+            props.onCalibrationPhasesChange(
+              CALIBRATION_PHASE_OPTIONS.find(
+                (option) => phasesKey(option.phases) === e.currentTarget.value,
+              )?.phases,
+            )
+          }
+        >
+          <For each={CALIBRATION_PHASE_OPTIONS}>
+            {(option) => <option value={phasesKey(option.phases)}>{option.label}</option>}
+          </For>
+        </select>
+        <span class="text-gray-500">Phases are detected on File 1's track</span>
+        <Show
+          when={
+            props.calibrationPhases?.every((phase) => !AIRBORNE_PHASES.includes(phase)) &&
+            usesWholeFlight(props.selectedMethod)
+          }
+        >
+          <span class="text-amber-600">
+            Ground data only pins down an offset, pick a 1-point method to zero at launch
+          </span>
+        </Show>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <span class="font-medium text-gray-700">Sample grid:</span>
+        <label class="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="radio"
+            name="grid-rate"
+            checked={props.gridRate === 1}
+            onChange={() => props.onGridRateChange(1)}
+          />
+          1 Hz
+        </label>
+        <label class="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="radio"
+            name="grid-rate"
+            checked={props.gridRate === 'native'}
+            onChange={() => props.onGridRateChange('native')}
+          />
+          Native ({props.nativeRate.toFixed(1)} Hz)
+        </label>
+        <label class="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="radio"
+            name="grid-rate"
+            checked={typeof props.gridRate === 'number' && props.gridRate !== 1}
+            onChange={() => props.onGridRateChange(2)}
+          />
+          Custom
+        </label>
+        <Show when={typeof props.gridRate === 'number' && props.gridRate !== 1}>
+          <input
+            type="number"
+            min="0.1"
+            max="20"
+            step="0.1"
+            class="w-20 border border-gray-300 rounded px-2 py-1"
+            value={props.gridRate}
+            onChange={(e) => {
+              const rate = Number.parseFloat(e.currentTarget.value)
+              if (Number.isFinite(rate) && rate > 0) props.onGridRateChange(rate)
+            }}
+          />
+          <span class="text-gray-500">Hz</span>
+        </Show>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <span class="font-medium text-gray-700">Temperature:</span>
+        <select
+          class="border border-gray-300 rounded px-2 py-1"
+          value={props.temperature.mode}
+          onChange={(e) =>
+            props.onTemperatureChange({
+              ...props.temperature,
+              mode: e.currentTarget.value as TemperatureMode,
+            })
+          }
+        >
+          <For each={TEMPERATURE_MODES}>
+            {(option) => <option value={option.mode}>{option.label}</option>}
+          </For>
+        </select>
+        <Show when={props.temperature.mode === 'ground-temp'}>
+          <label class="flex items-center gap-1.5">
+            <input
+              type="number"
+              step="0.5"
+              class="w-20 border border-gray-300 rounded px-2 py-1"
+              value={props.temperature.groundTemperature ?? ''}
+              onChange={(e) =>
+                props.onTemperatureChange({
+                  ...props.temperature,
+                  groundTemperature: parseOptionalNumber(e.currentTarget.value),
+                })
+              }
+            />
+            °C at
+          </label>
+          <label class="flex items-center gap-1.5">
+            <input
+              type="number"
+              step="10"
+              class="w-24 border border-gray-300 rounded px-2 py-1"
+              value={props.temperature.groundElevation ?? ''}
+              onChange={(e) =>
+                props.onTemperatureChange({
+                  ...props.temperature,
+                  groundElevation: parseOptionalNumber(e.currentTarget.value),
+                })
+              }
+            />
+            m
+          </label>
+        </Show>
+        <Show when={props.temperature.mode === 'isa-deviation'}>
+          <label class="flex items-center gap-1.5">
+            ISA +
+            <input
+              type="number"
+              step="0.5"
+              class="w-20 border border-gray-300 rounded px-2 py-1"
+              value={props.temperature.isaDeviation ?? ''}
+              onChange={(e) =>
+                props.onTemperatureChange({
+                  ...props.temperature,
+                  isaDeviation: parseOptionalNumber(e.currentTarget.value),
+                })
+              }
+            />
+            K
+          </label>
+        </Show>
+        <span class="text-gray-500">Applies to the pressure-space methods</span>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <span class="font-medium text-gray-700">Holdout validation:</span>
+        <select
+          class="border border-gray-300 rounded px-2 py-1"
+          value={props.validation.scheme}
+          onChange={(e) =>
+            props.onValidationChange({
+              ...props.validation,
+              scheme: e.currentTarget.value as ValidationScheme,
+            })
+          }
+        >
+          <For each={VALIDATION_SCHEMES}>
+            {(option) => <option value={option.scheme}>{option.label}</option>}
+          </For>
+        </select>
+        <Show when={props.validation.scheme !== 'none'}>
+          <label class="flex items-center gap-1.5">
+            <input
+              type="number"
+              min="2"
+              max="20"
+              step="1"
+              class="w-16 border border-gray-300 rounded px-2 py-1"
+              value={props.validation.folds ?? DEFAULT_VALIDATION_FOLDS}
+              onChange={(e) => {
+                const folds = parseOptionalNumber(e.currentTarget.value)
+                if (folds !== undefined && folds >= 2) {
+                  props.onValidationChange({ ...props.validation, folds: Math.round(folds) })
+                }
+              }}
+            />
+            folds
+          </label>
+        </Show>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <span class="font-medium text-gray-700">Baro lag:</span>
+        <label class="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={props.lagCompensation}
+            onChange={(e) => props.onLagCompensationChange(e.currentTarget.checked)}
+          />
+          Shift each baro by its measured lag to GPS before fitting
+        </label>
+        <label class="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={props.measureLag || props.lagCompensation}
+            disabled={props.lagCompensation}
+            onChange={(e) => props.onMeasureLagChange(e.currentTarget.checked)}
+          />
+          Show the measured lags
+        </label>
       </div>
     </div>
   )
@@ -0,0 +1,86 @@
+import type { Component } from 'solid-js'
+import { For, Show } from 'solid-js'
+import {
+  type ClockOffsetEstimate,
+  type ClockOffsetSignal,
+  MIN_CLOCK_OFFSET_CONFIDENCE,
+} from '../utils/clock-offset'
+
+interface ClockOffsetPanelProps {
+  estimates: Array<ClockOffsetEstimate>
+  // Manual offsets in ms per file, null where the detected value is used
+  overrides: Array<number | null>
+  signal: ClockOffsetSignal
+  onOverrideChange: (index: number, offsetMs: number | null) => void
+  onSignalChange: (signal: ClockOffsetSignal) => void
+}
+
+export const ClockOffsetPanel: Component<ClockOffsetPanelProps> = (props) => {
+  const formatSeconds = (ms: number) => `${ms >= 0 ? '+' : ''}${(ms / 1000).toFixed(1)} s`
+
+  return (
+    <div class="mb-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="font-semibold text-gray-900">Clock Alignment</h3>
+        <label class="text-sm text-gray-600 flex items-center gap-2">
+          Correlate on
+          <select
+            class="border border-gray-300 rounded px-2 py-1"
+            value={props.signal}
+            onChange={(e) => props.onSignalChange(e.currentTarget.value as ClockOffsetSignal)}
+          >
+            <option value="vario">Vertical speed</option>
+            <option value="altitude">Altitude</option>
+          </select>
+        </label>
+      </div>
+
+      <div class="space-y-2 text-sm">
+        <For each={props.estimates}>
+          {(estimate, i) => (
+            <Show when={i() > 0}>
+              <div class="flex items-center gap-3">
+                <span class="font-medium w-16">File {i() + 1}:</span>
+                <span class="text-gray-600 w-64">
+                  detected {formatSeconds(estimate.offsetMs)} (confidence{' '}
+                  {estimate.confidence.toFixed(2)})
+                  <Show when={estimate.confidence < MIN_CLOCK_OFFSET_CONFIDENCE}>
+                    <span class="text-amber-600"> not applied</span>
+                  </Show>
+                </span>
+                <input
+                  type="number"
+                  step="0.1"
+                  class="w-24 border border-gray-300 rounded px-2 py-1"
+                  placeholder="auto"
+                  value={props.overrides[i()] != null ? props.overrides[i()]! / 1000 : ''}
+                  onChange={(e) => {
+                    const seconds = Number.parseFloat(e.currentTarget.value)
+                    props.onOverrideChange(
+                      i(),
+                      Number.isFinite(seconds) ? Math.round(seconds * 1000) : null,
+                    )
+                  }}
+                />
+                <span class="text-gray-500">s</span>
+                <Show when={props.overrides[i()] != null}>
+                  <button
+                    type="button"
+                    class="text-blue-600 hover:text-blue-800 underline"
+                    onClick={() => props.onOverrideChange(i(), null)}
+                  >
+                    Auto
+                  </button>
+                </Show>
+              </div>
+            </Show>
+          )}
+        </For>
+      </div>
+
+      <div class="mt-2 text-xs text-gray-500">
+        Offsets are added to each file's timestamps to line it up with File 1.
+      </div>
+    </div>
+  )
+}
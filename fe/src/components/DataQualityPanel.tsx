@@ -0,0 +1,113 @@
+import type { Component } from 'solid-js'
+import { For, Show } from 'solid-js'
+import type { IGCFileWithMetadata, QualityIssue, QualityIssueKind } from '../types'
+
+interface DataQualityPanelProps {
+  files: Array<IGCFileWithMetadata>
+  issues: Array<Array<QualityIssue>>
+  exclude: boolean
+  onExcludeChange: (exclude: boolean) => void
+}
+
+const KINDS: Array<{ kind: QualityIssueKind; label: string }> = [
+  { kind: 'spike', label: 'Spikes' },
+  { kind: 'stuck', label: 'Stuck' },
+  { kind: 'gap', label: 'Gaps' },
+  { kind: 'vertical-speed', label: 'Jumps' },
+]
+
+// Longest issue list shown per file, the counts above it cover everything
+const MAX_LISTED_ISSUES = 100
+
+function describeIssue(issue: QualityIssue): string {
+  switch (issue.kind) {
+    case 'spike':
+      return `spike of ${issue.size.toFixed(0)} m`
+    case 'stuck':
+      return `stuck for ${issue.size.toFixed(0)} s`
+    case 'gap':
+      return `no data for ${issue.size.toFixed(0)} s`
+    case 'vertical-speed':
+      return `jump at ${issue.size.toFixed(0)} m/s`
+  }
+}
+
+// Issues found by the data-quality pass, per file and series
+export const DataQualityPanel: Component<DataQualityPanelProps> = (props) => {
+  const count = (i: number, kind: QualityIssueKind, series: 'baro' | 'gps') =>
+    props.issues[i].filter((issue) => issue.kind === kind && issue.series === series).length
+
+  const issueTime = (file: IGCFileWithMetadata, issue: QualityIssue) =>
+    new Date(file.fixes[issue.start].timestamp).toLocaleTimeString()
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="font-semibold text-gray-900">Data Quality</h3>
+        <label class="flex items-center gap-1.5 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={props.exclude}
+            onChange={(e) => props.onExcludeChange(e.currentTarget.checked)}
+          />
+          Exclude flagged samples from calibration
+        </label>
+      </div>
+
+      <table class="text-sm">
+        <thead>
+          <tr>
+            <th />
+            <For each={KINDS}>
+              {(option) => (
+                <th class="px-3 py-1 text-right font-medium text-gray-600">{option.label}</th>
+              )}
+            </For>
+          </tr>
+        </thead>
+        <tbody>
+          <For each={props.files}>
+            {(_, i) => (
+              <tr class="border-t border-gray-200">
+                <th class="px-2 py-1 text-left font-medium text-gray-600">File {i() + 1}</th>
+                <For each={KINDS}>
+                  {(option) => (
+                    <td class="px-3 py-1 text-right font-mono">
+                      {count(i(), option.kind, 'baro')} / {count(i(), option.kind, 'gps')}
+                    </td>
+                  )}
+                </For>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+      <div class="mt-2 text-xs text-gray-500">
+        Counts are baro / GPS. Jumps are steps faster than any aircraft climbs or sinks; stuck
+        values repeat while the file's other altitude keeps moving. Flagged stretches are marked on
+        the altitude chart.
+      </div>
+
+      <For each={props.files}>
+        {(file, i) => (
+          <Show when={props.issues[i()].length > 0}>
+            <details class="mt-3 text-sm">
+              <summary class="cursor-pointer text-gray-700">
+                File {i() + 1}: {props.issues[i()].length} issues
+              </summary>
+              <ul class="mt-1 ml-4 max-h-48 overflow-y-auto font-mono text-xs text-gray-700">
+                <For each={props.issues[i()].slice(0, MAX_LISTED_ISSUES)}>
+                  {(issue) => (
+                    <li>
+                      {issueTime(file, issue)} {issue.series} {describeIssue(issue)}
+                    </li>
+                  )}
+                </For>
+              </ul>
+            </details>
+          </Show>
+        )}
+      </For>
+    </div>
+  )
+}
@@ -0,0 +1,161 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createMemo, createSignal, onCleanup, onMount, untrack } from 'solid-js'
+import type { TimeRange } from '../types'
+import { buildHistogram } from '../utils/chart-calculations'
+import { downsampleForView } from '../utils/downsample'
+
+// Charts in this group share zoom and the hover cursor with the main altitude chart
+export const LINKED_CHART_GROUP = 'altitude'
+
+export interface DifferenceSeries {
+  name: string
+  color: string
+  data: Array<[number, number]>
+}
+
+interface DifferenceChartProps {
+  series: Array<DifferenceSeries>
+  timeRange: TimeRange | null
+}
+
+// Differences against the first file over time, next to their distribution
+export const DifferenceChart: Component<DifferenceChartProps> = (props) => {
+  let timeChartRef: HTMLDivElement | undefined
+  let histogramRef: HTMLDivElement | undefined
+  const [charts, setCharts] = createSignal<{
+    time: echarts.ECharts
+    histogram: echarts.ECharts
+  } | null>(null)
+
+  // Lines thinned to about two points per pixel across the visible window; the histogram
+  // counts every sample
+  const lineData = (chartInstance: echarts.ECharts, view: TimeRange | null) => {
+    const target = Math.max(2 * chartInstance.getWidth(), 1000)
+    return untrack(() => props.series).map((s) => downsampleForView(s.data, view, target))
+  }
+
+  onMount(() => {
+    if (timeChartRef && histogramRef) {
+      const time = echarts.init(timeChartRef)
+      const histogram = echarts.init(histogramRef)
+      time.group = LINKED_CHART_GROUP
+      echarts.connect(LINKED_CHART_GROUP)
+      setCharts({ time, histogram })
+
+      time.on('dataZoom', () => {
+        const dataZoom = (time.getOption() as any).dataZoom?.[0]
+        const timeRange = untrack(() => props.timeRange)
+        if (!dataZoom || !timeRange) return
+        const start = dataZoom.start ?? 0
+        const end = dataZoom.end ?? 100
+        const span = timeRange.end - timeRange.start
+        const view =
+          start > 0 || end < 100
+            ? {
+                start: timeRange.start + (span * start) / 100,
+                end: timeRange.start + (span * end) / 100,
+              }
+            : null
+        time.setOption({ series: lineData(time, view).map((data) => ({ data })) }, false)
+      })
+
+      const handleResize = () => {
+        time.resize()
+        histogram.resize()
+      }
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        time.off('dataZoom')
+        time.dispose()
+        histogram.dispose()
+      })
+    }
+  })
+
+  const histogram = createMemo(() =>
+    buildHistogram(props.series.map((s) => s.data.map(([, d]) => d))),
+  )
+
+  createEffect(() => {
+    const instances = charts()
+    if (!instances) return
+
+    const names = props.series.map((s) => s.name)
+    const data = lineData(instances.time, null)
+
+    // dataZoom layout mirrors the main chart (inside + slider) so connected zoom actions,
+    // which address dataZoom components by id, land on the matching component here
+    instances.time.setOption(
+      {
+        tooltip: {
+          trigger: 'axis',
+          valueFormatter: (value: number) => `${value.toFixed(1)} m`,
+        },
+        legend: { data: names, top: 0, type: 'scroll' },
+        grid: { left: '3%', right: '4%', bottom: 40, top: 40, containLabel: true },
+        xAxis: {
+          type: 'time',
+          min: props.timeRange?.start,
+          max: props.timeRange?.end,
+          axisLabel: {
+            formatter: (value: number) => new Date(value).toLocaleTimeString(),
+          },
+        },
+        yAxis: {
+          type: 'value',
+          name: 'Difference (m)',
+          scale: true,
+          axisLabel: { formatter: '{value} m' },
+        },
+        dataZoom: [
+          { type: 'inside', start: 0, end: 100 },
+          { type: 'slider', start: 0, end: 100, height: 16, bottom: 8 },
+        ],
+        series: props.series.map((s, i) => ({
+          name: s.name,
+          type: 'line',
+          data: data[i],
+          smooth: false,
+          symbol: 'none',
+          lineStyle: { width: 1.5, color: s.color },
+          itemStyle: { color: s.color },
+        })),
+      },
+      true,
+    )
+
+    const { edges, counts } = histogram()
+    const centers = edges.slice(0, -1).map((edge, k) => ((edge + edges[k + 1]) / 2).toFixed(1))
+    instances.histogram.setOption(
+      {
+        tooltip: { trigger: 'axis' },
+        legend: { data: names, top: 0, type: 'scroll' },
+        grid: { left: '3%', right: '4%', bottom: 10, top: 40, containLabel: true },
+        xAxis: { type: 'category', data: centers, name: 'm' },
+        yAxis: { type: 'value', name: 'Samples' },
+        series: props.series.map((s, i) => ({
+          name: s.name,
+          type: 'bar',
+          data: counts[i],
+          barGap: '-100%',
+          barCategoryGap: '0%',
+          itemStyle: { color: s.color, opacity: 0.55 },
+        })),
+      },
+      true,
+    )
+  })
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-2">Differences vs File 1</h3>
+      <div class="flex gap-4">
+        <div ref={timeChartRef} class="flex-[2] min-w-0" style={{ height: '280px' }} />
+        <div ref={histogramRef} class="flex-1 min-w-0" style={{ height: '280px' }} />
+      </div>
+    </div>
+  )
+}
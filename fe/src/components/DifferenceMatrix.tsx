@@ -0,0 +1,59 @@
+import type { Component } from 'solid-js'
+import { For, Show } from 'solid-js'
+import type { BaroAnalytics, DifferenceMatrix, GPSAnalytics } from '../types'
+
+interface DifferenceMatrixProps {
+  title: string
+  // Row/column labels, e.g. ['Baro1', 'Baro2', 'Baro3']
+  labels: Array<string>
+  matrix: DifferenceMatrix<BaroAnalytics | GPSAnalytics>
+}
+
+// Cell [i][j] shows row minus column: mean on top, max / 95th percentile below
+export const DifferenceMatrixTable: Component<DifferenceMatrixProps> = (props) => {
+  return (
+    <div class="flex-1 p-4 bg-gray-50 border border-gray-200 rounded">
+      <h3 class="font-semibold text-gray-900 mb-3">{props.title}</h3>
+      <table class="text-sm w-full">
+        <thead>
+          <tr>
+            <th />
+            <For each={props.labels}>
+              {(label) => <th class="px-2 py-1 text-right font-medium text-gray-600">{label}</th>}
+            </For>
+          </tr>
+        </thead>
+        <tbody>
+          <For each={props.matrix}>
+            {(row, i) => (
+              <tr class="border-t border-gray-200">
+                <th class="px-2 py-1 text-left font-medium text-gray-600">{props.labels[i()]}</th>
+                <For each={row}>
+                  {(cell) => (
+                    <td class="px-2 py-1 text-right font-mono">
+                      <Show when={cell} fallback={<span class="text-gray-400">–</span>}>
+                        {(stats) => (
+                          <>
+                            <div>
+                              <strong>{stats().meanDifference.toFixed(1)}</strong>
+                            </div>
+                            <div class="text-xs text-gray-500">
+                              {stats().maxDifference.toFixed(1)} / {stats().percentile95.toFixed(1)}
+                            </div>
+                          </>
+                        )}
+                      </Show>
+                    </td>
+                  )}
+                </For>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+      <div class="mt-2 text-xs text-gray-500">
+        Row minus column: mean difference, then max / 95th percentile of |difference| (m)
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createSignal, onCleanup, onMount } from 'solid-js'
+import type { InstrumentCalibration } from '../types'
+import { getInstrumentColors } from '../utils/instrument-colors'
+
+interface DriftChartProps {
+  instruments: Array<InstrumentCalibration>
+}
+
+// Fitted pressure offset over time for the drift calibration methods
+export const DriftChart: Component<DriftChartProps> = (props) => {
+  let chartRef: HTMLDivElement | undefined
+  const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
+
+  onMount(() => {
+    if (chartRef) {
+      const chartInstance = echarts.init(chartRef)
+      setChart(chartInstance)
+
+      const handleResize = () => chartInstance.resize()
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        chartInstance.dispose()
+      })
+    }
+  })
+
+  createEffect(() => {
+    const chartInstance = chart()
+    if (!chartInstance) return
+
+    const series = props.instruments.flatMap((instrument, i) => {
+      if (!instrument.driftCurve) return []
+      const color = getInstrumentColors(i).baro
+      return [
+        {
+          name: `baro${i + 1}`,
+          type: 'line',
+          data: instrument.driftCurve.map((p) => [p.timestamp, p.offsetPa]),
+          smooth: false,
+          symbol: 'none',
+          lineStyle: { width: 2, color },
+          itemStyle: { color },
+        },
+      ]
+    })
+
+    chartInstance.setOption(
+      {
+        tooltip: {
+          trigger: 'axis',
+          valueFormatter: (value: number) => `${value.toFixed(0)} Pa`,
+        },
+        legend: { data: series.map((s) => s.name), top: 0 },
+        grid: { left: '3%', right: '4%', bottom: 10, top: 40, containLabel: true },
+        xAxis: {
+          type: 'time',
+          axisLabel: {
+            formatter: (value: number) => new Date(value).toLocaleTimeString(),
+          },
+        },
+        yAxis: {
+          type: 'value',
+          name: 'Pressure offset (Pa)',
+          scale: true,
+          axisLabel: { formatter: '{value} Pa' },
+        },
+        series,
+      },
+      true,
+    )
+  })
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-2">Pressure Offset Drift</h3>
+      <div ref={chartRef} class="w-full" style={{ height: '240px' }} />
+    </div>
+  )
+}
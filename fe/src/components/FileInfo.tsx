@@ -1,12 +1,18 @@
 import type { Component } from 'solid-js'
-import { Show } from 'solid-js'
-import type { IGCFileWithMetadata } from '../types'
+import { For, Show } from 'solid-js'
+import type { FixRateStats, IGCFileWithMetadata } from '../types'
+import { assessFileHealth } from '../utils/file-health'
+import { getInstrumentColors } from '../utils/instrument-colors'
 
 interface FileInfoProps {
-  file1Data: IGCFileWithMetadata | null
-  file2Data: IGCFileWithMetadata | null
+  files: Array<IGCFileWithMetadata>
 }
 
+const formatRate = (rate: FixRateStats) =>
+  rate.medianInterval === null
+    ? `${rate.fixes} fixes`
+    : `${rate.fixes} fixes every ${rate.medianInterval} s (${rate.minInterval}–${rate.maxInterval} s)`
+
 export const FileInfoPanel: Component<FileInfoProps> = (props) => {
   const getInstrument = (file: IGCFileWithMetadata) => {
     const parts = []
@@ -15,26 +21,63 @@ export const FileInfoPanel: Component<FileInfoProps> = (props) => {
     return parts.length > 0 ? parts.join(' - ') : 'Unknown'
   }
 
+  // Header and parse details shown under each file, empty fields left out
+  const getDetails = (file: IGCFileWithMetadata) => {
+    const parts = [
+      file.parseReport.format,
+      file.parseReport.inferredDate
+        ? `${file.parseReport.inferredDate} (inferred from filename)`
+        : file.date,
+    ]
+    if (file.loggerId) parts.push(`logger ID ${file.loggerId}`)
+    if (file.firmwareVersion) parts.push(`firmware ${file.firmwareVersion}`)
+    if (file.hardwareVersion) parts.push(`hardware ${file.hardwareVersion}`)
+    if (file.parseReport.extensions.length > 0) {
+      parts.push(`extensions ${file.parseReport.extensions.join(', ')}`)
+    }
+    return parts.join(' · ')
+  }
+
   return (
-      <div class="mx-8 text-sm">
-        <Show when={props.file1Data}>
-          <div class="flex items-center">
-            <span class="inline-block w-3 h-3 rounded-full bg-blue-500 mr-1"/>
-            <span class="inline-block w-3 h-3 rounded-full bg-red-500 mr-2"/>
-            <span class="font-medium">File 1:</span>
-            <span class="ml-2">{props.file1Data!.filename}</span>
-            <span class="ml-2 text-gray-600">({getInstrument(props.file1Data!)})</span>
-          </div>
-        </Show>
-        <Show when={props.file2Data}>
-          <div class="flex items-center">
-            <span class="inline-block w-3 h-3 rounded-full bg-green-500 mr-1"/>
-            <span class="inline-block w-3 h-3 rounded-full bg-orange-500 mr-2"/>
-            <span class="font-medium">File 2:</span>
-            <span class="ml-2">{props.file2Data!.filename}</span>
-            <span class="ml-2 text-gray-600">({getInstrument(props.file2Data!)})</span>
-          </div>
-        </Show>
-      </div>
+    <div class="mx-8 text-sm space-y-1">
+      <For each={props.files}>
+        {(file, i) => {
+          const health = () => assessFileHealth(file)
+          return (
+            <div>
+              <div class="flex items-center">
+                <span
+                  class="inline-block w-3 h-3 rounded-full mr-1"
+                  style={{ background: getInstrumentColors(i()).gps }}
+                />
+                <span
+                  class="inline-block w-3 h-3 rounded-full mr-2"
+                  style={{ background: getInstrumentColors(i()).baro }}
+                />
+                <span class="font-medium">File {i() + 1}:</span>
+                <span class="ml-2">{file.filename}</span>
+                <span class="ml-2 text-gray-600">({getInstrument(file)})</span>
+              </div>
+              <div class="ml-7 text-xs text-gray-500">
+                {getDetails(file)} · {formatRate(health().rate)}
+              </div>
+              <Show when={health().warnings.length > 0}>
+                <div class="ml-7 text-xs text-amber-600">{health().warnings.join('; ')}</div>
+              </Show>
+              <Show when={file.parseReport.errors.length > 0}>
+                <details class="ml-7 text-xs text-gray-600">
+                  <summary class="cursor-pointer">
+                    Parser errors ({file.parseReport.errors.length})
+                  </summary>
+                  <ul class="mt-1 max-h-32 overflow-y-auto font-mono">
+                    <For each={file.parseReport.errors}>{(message) => <li>{message}</li>}</For>
+                  </ul>
+                </details>
+              </Show>
+            </div>
+          )
+        }}
+      </For>
+    </div>
   )
-}
\ No newline at end of file
+}
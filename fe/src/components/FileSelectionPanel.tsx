@@ -0,0 +1,148 @@
+import type { Component } from 'solid-js'
+import { For, Show } from 'solid-js'
+import type { IGCFileWithMetadata } from '../types'
+import type { ReferenceMode } from '../utils/baro-calibration'
+import { getInstrumentColors } from '../utils/instrument-colors'
+import { TRACK_EXTENSIONS } from '../utils/track-formats'
+
+// Edit to the loaded files; indices are file roles (0 is File 1)
+export type FileChange =
+  | { kind: 'swap'; index: number; other: number }
+  | { kind: 'replace'; index: number; file: File }
+  | { kind: 'remove'; index: number }
+  | { kind: 'add'; files: Array<File> }
+
+interface FileSelectionPanelProps {
+  files: Array<IGCFileWithMetadata>
+  referenceMode: ReferenceMode
+  onReferenceModeChange: (mode: ReferenceMode) => void
+  onFilesChange: (change: FileChange) => void
+}
+
+const ACCEPT = TRACK_EXTENSIONS.join(',')
+
+// File roles, adding, replacing and removing files, and the altitude taken as the reference
+export const FileSelectionPanel: Component<FileSelectionPanelProps> = (props) => {
+  const buttonClass =
+    'px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-default'
+
+  const hasSeries = (file: IGCFileWithMetadata, kind: 'gps' | 'baro') =>
+    file.fixes.some((fix) => (kind === 'gps' ? fix.gpsAltitude : fix.pressureAltitude) !== null)
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-3">Files</h3>
+
+      <div class="space-y-2 text-sm">
+        <For each={props.files}>
+          {(file, i) => (
+            <div class="flex items-center gap-3">
+              <span
+                class="inline-block w-3 h-3 rounded-full"
+                style={{ background: getInstrumentColors(i()).baro }}
+              />
+              <span class="font-medium w-16">File {i() + 1}:</span>
+              <span class="flex-1 truncate">{file.filename}</span>
+              <button
+                type="button"
+                class={buttonClass}
+                title="Swap with the file above"
+                disabled={i() === 0}
+                onClick={() => props.onFilesChange({ kind: 'swap', index: i(), other: i() - 1 })}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                class={buttonClass}
+                title="Swap with the file below"
+                disabled={i() === props.files.length - 1}
+                onClick={() => props.onFilesChange({ kind: 'swap', index: i(), other: i() + 1 })}
+              >
+                ↓
+              </button>
+              <label class={`${buttonClass} cursor-pointer`}>
+                Replace
+                <input
+                  type="file"
+                  accept={ACCEPT}
+                  class="hidden"
+                  onChange={(e) => {
+                    const replacement = e.currentTarget.files?.[0]
+                    if (replacement) {
+                      props.onFilesChange({ kind: 'replace', index: i(), file: replacement })
+                    }
+                    e.currentTarget.value = ''
+                  }}
+                />
+              </label>
+              <button
+                type="button"
+                class={buttonClass}
+                disabled={props.files.length <= 1}
+                onClick={() => props.onFilesChange({ kind: 'remove', index: i() })}
+              >
+                Remove
+              </button>
+            </div>
+          )}
+        </For>
+      </div>
+
+      <div class="flex flex-wrap items-center gap-4 mt-3 text-sm">
+        <label class={`${buttonClass} cursor-pointer`}>
+          Add files…
+          <input
+            type="file"
+            accept={ACCEPT}
+            multiple
+            class="hidden"
+            onChange={(e) => {
+              const added = Array.from(e.currentTarget.files ?? [])
+              if (added.length > 0) props.onFilesChange({ kind: 'add', files: added })
+              e.currentTarget.value = ''
+            }}
+          />
+        </label>
+
+        <span class="font-medium text-gray-700">Reference:</span>
+        <select
+          class="border border-gray-300 rounded px-2 py-1"
+          value={props.referenceMode}
+          onChange={(e) => props.onReferenceModeChange(e.currentTarget.value as ReferenceMode)}
+        >
+          <option value="avg-gps">Average of all GPS</option>
+          <option value="weighted-gps">GPS weighted by fix quality</option>
+          <For each={props.files}>
+            {(file, i) => (
+              <Show when={hasSeries(file, 'gps')}>
+                <option value={`gps${i() + 1}`}>GPS of file {i() + 1}</option>
+              </Show>
+            )}
+          </For>
+          <For each={props.files}>
+            {(file, i) => (
+              <Show when={hasSeries(file, 'baro')}>
+                <option value={`baro${i() + 1}`}>Baro of file {i() + 1} as truth</option>
+              </Show>
+            )}
+          </For>
+        </select>
+        <Show when={props.referenceMode === 'weighted-gps'}>
+          <span class="text-gray-500">
+            Drops invalid fixes, weights the rest by FXA accuracy or satellites in use
+          </span>
+        </Show>
+        <Show when={props.referenceMode.startsWith('baro')}>
+          <span class="text-gray-500">
+            The other baros are calibrated to this one, uncorrected; GPS plays no part
+          </span>
+        </Show>
+      </div>
+      <div class="mt-2 text-xs text-gray-500">
+        File 1 is the one the flight phases come from and the others are compared against. Dropping
+        files anywhere on the page starts a new comparison.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { Component } from 'solid-js'
+import { For } from 'solid-js'
+import type { GPSDatum, IGCFileWithMetadata } from '../types'
+import { COMMON_GPS_DATUM, DEFAULT_GPS_DATUM, GPS_DATUM_LABELS, geoidHeight } from '../utils/geoid'
+
+interface GPSDatumPanelProps {
+  files: Array<IGCFileWithMetadata>
+  // Datum chosen by hand per file, null where the detected one is used
+  overrides: Array<GPSDatum | null>
+  onOverrideChange: (index: number, datum: GPSDatum | null) => void
+}
+
+export const GPSDatumPanel: Component<GPSDatumPanelProps> = (props) => {
+  const detected = (file: IGCFileWithMetadata) =>
+    file.gpsDatum
+      ? `header says ${GPS_DATUM_LABELS[file.gpsDatum]}`
+      : `not in header, ${GPS_DATUM_LABELS[DEFAULT_GPS_DATUM]} assumed`
+
+  const firstGeoidHeight = () => {
+    const fix = props.files[0]?.fixes[0]
+    return fix ? geoidHeight(fix.latitude, fix.longitude) : null
+  }
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-3">GPS Altitude Datum</h3>
+
+      <div class="space-y-2 text-sm">
+        <For each={props.files}>
+          {(file, i) => (
+            <div class="flex items-center gap-3">
+              <span class="font-medium w-16">File {i() + 1}:</span>
+              <select
+                class="border border-gray-300 rounded px-2 py-1"
+                value={props.overrides[i()] ?? 'auto'}
+                onChange={(e) => {
+                  const value = e.currentTarget.value
+                  props.onOverrideChange(i(), value === 'auto' ? null : (value as GPSDatum))
+                }}
+              >
+                <option value="auto">Auto</option>
+                <option value="geoid">{GPS_DATUM_LABELS.geoid}</option>
+                <option value="ellipsoid">{GPS_DATUM_LABELS.ellipsoid}</option>
+              </select>
+              <span class="text-gray-600">{detected(file)}</span>
+            </div>
+          )}
+        </For>
+      </div>
+      <div class="mt-2 text-xs text-gray-500">
+        Every GPS series is converted to {GPS_DATUM_LABELS[COMMON_GPS_DATUM]} with the EGM96 geoid
+        before any comparison.
+        {firstGeoidHeight() !== null &&
+          ` Here the geoid lies ${firstGeoidHeight()!.toFixed(1)} m above the ellipsoid, the error a wrong datum causes.`}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createSignal, For, onCleanup, onMount } from 'solid-js'
+import type { NoiseAnalysis, SeriesNoise } from '../types'
+import { getInstrumentColors } from '../utils/instrument-colors'
+
+interface NoisePanelProps {
+  analysis: NoiseAnalysis
+}
+
+const formatRMS = (noise: SeriesNoise) =>
+  noise.residualRMS === null ? '–' : noise.residualRMS.toFixed(2)
+
+// Noise floor of each raw series: high-pass residual RMS and the Allan deviation curve
+export const NoisePanel: Component<NoisePanelProps> = (props) => {
+  let chartRef: HTMLDivElement | undefined
+  const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
+
+  onMount(() => {
+    if (chartRef) {
+      const chartInstance = echarts.init(chartRef)
+      setChart(chartInstance)
+
+      const handleResize = () => chartInstance.resize()
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        chartInstance.dispose()
+      })
+    }
+  })
+
+  createEffect(() => {
+    const chartInstance = chart()
+    if (!chartInstance) return
+
+    const curve = (kind: 'baro' | 'gps', noise: SeriesNoise, i: number) => {
+      const color = getInstrumentColors(i)[kind]
+      return {
+        name: `${kind}${i + 1}`,
+        type: 'line',
+        data: noise.allan.map((p) => [p.tau, p.deviation]),
+        symbolSize: 5,
+        lineStyle: { width: 1.5, color, type: kind === 'gps' ? 'dashed' : 'solid' },
+        itemStyle: { color },
+      }
+    }
+    const series = [
+      ...props.analysis.baro.map((noise, i) => curve('baro', noise, i)),
+      ...props.analysis.gps.map((noise, i) => curve('gps', noise, i)),
+    ]
+
+    chartInstance.setOption(
+      {
+        tooltip: {
+          trigger: 'item',
+          formatter: (p: any) =>
+            `${p.seriesName}<br/>τ ${p.value[0]} s: ${p.value[1].toFixed(3)} m`,
+        },
+        legend: { data: series.map((s) => s.name), top: 0, type: 'scroll' },
+        grid: { left: '3%', right: '4%', bottom: 30, top: 40, containLabel: true },
+        xAxis: {
+          type: 'log',
+          name: 'τ (s)',
+          nameLocation: 'middle',
+          nameGap: 25,
+        },
+        yAxis: { type: 'log', name: 'Allan deviation (m)' },
+        series,
+      },
+      true,
+    )
+  })
+
+  const stableMinutes = () =>
+    props.analysis.segments.reduce((acc, s) => acc + (s.end - s.start), 0) / 60_000
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-1">Sensor Noise</h3>
+      <div class="text-xs text-gray-500 mb-3">
+        Measured over {props.analysis.segments.length} stable stretches (
+        {stableMinutes().toFixed(1)} min) where the mean baro altitude is close to linear in time:
+        on the ground and in steady glides.
+      </div>
+      <div class="flex gap-4">
+        <div class="p-4 bg-gray-50 border border-gray-200 rounded self-start">
+          <h4 class="font-semibold text-gray-900 mb-2">High-pass RMS (m)</h4>
+          <table class="text-sm">
+            <thead>
+              <tr>
+                <th />
+                <th class="px-2 py-1 text-right font-medium text-gray-600">Baro</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">GPS</th>
+              </tr>
+            </thead>
+            <tbody>
+              <For each={props.analysis.baro}>
+                {(noise, i) => (
+                  <tr class="border-t border-gray-200">
+                    <th class="px-2 py-1 text-left font-medium text-gray-600">File {i() + 1}</th>
+                    <td class="px-2 py-1 text-right font-mono">{formatRMS(noise)}</td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {formatRMS(props.analysis.gps[i()])}
+                    </td>
+                  </tr>
+                )}
+              </For>
+            </tbody>
+          </table>
+          <div class="mt-2 text-xs text-gray-500">Around a 30 s moving linear fit</div>
+        </div>
+        <div ref={chartRef} class="flex-1 min-w-0" style={{ height: '280px' }} />
+      </div>
+    </div>
+  )
+}
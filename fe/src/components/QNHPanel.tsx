@@ -0,0 +1,101 @@
+import type { Component } from 'solid-js'
+import { createSignal, Show } from 'solid-js'
+import {
+  parseMeteostatCSV,
+  type QNHSeries,
+  type QNHSummary,
+  qnhCorrectedAltitude,
+} from '../utils/qnh'
+
+interface QNHPanelProps {
+  series: QNHSeries | null
+  // QNH over the flight's time span, null when the station data does not cover it
+  summary: QNHSummary | null
+  onSeriesChange: (series: QNHSeries | null) => void
+}
+
+export const QNHPanel: Component<QNHPanelProps> = (props) => {
+  const [error, setError] = createSignal('')
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError('')
+    try {
+      props.onSeriesChange(parseMeteostatCSV(await file.text(), file.name))
+    } catch (err) {
+      setError(`Error reading pressure file: ${err}`)
+      console.error(err)
+    }
+  }
+
+  // Altitude shift of the QNH-corrected baro caused by the pressure change during the flight
+  const altitudeShift = (summary: QNHSummary) =>
+    qnhCorrectedAltitude(0, summary.end) - qnhCorrectedAltitude(0, summary.start)
+
+  return (
+    <div class="mb-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="font-semibold text-gray-900">QNH Correction</h3>
+        <div class="flex items-center gap-3 text-sm">
+          <label class="px-3 py-1 border border-gray-300 rounded cursor-pointer hover:border-blue-300">
+            Load station CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              class="hidden"
+              onChange={(e) => {
+                void handleFile(e.currentTarget.files?.[0])
+                e.currentTarget.value = ''
+              }}
+            />
+          </label>
+          <Show when={props.series}>
+            <button
+              type="button"
+              class="text-blue-600 hover:text-blue-800 underline"
+              onClick={() => props.onSeriesChange(null)}
+            >
+              Clear
+            </button>
+          </Show>
+        </div>
+      </div>
+
+      <Show
+        when={props.series}
+        fallback={
+          <div class="text-sm text-gray-600">
+            Load a Meteostat-style hourly CSV with sea-level pressure (<code>pres</code>, hPa) to
+            show QNH-corrected baro altitudes next to the standard (QNE) ones.
+          </div>
+        }
+      >
+        {(series) => (
+          <div class="text-sm space-y-1">
+            <div class="text-gray-600">
+              {series().source}: {series().samples.length} records
+            </div>
+            <Show
+              when={props.summary}
+              fallback={
+                <div class="text-amber-600">Station records do not cover the flight time.</div>
+              }
+            >
+              {(summary) => (
+                <div>
+                  QNH {summary().start.toFixed(1)} → {summary().end.toFixed(1)} hPa (range{' '}
+                  {summary().min.toFixed(1)}–{summary().max.toFixed(1)}), shifting QNH altitudes by{' '}
+                  <strong>{altitudeShift(summary()).toFixed(1)} m</strong> over the flight
+                </div>
+              )}
+            </Show>
+          </div>
+        )}
+      </Show>
+
+      <Show when={error()}>
+        <div class="mt-2 text-sm text-red-600">{error()}</div>
+      </Show>
+    </div>
+  )
+}
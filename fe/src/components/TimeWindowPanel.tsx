@@ -0,0 +1,97 @@
+import type { Component } from 'solid-js'
+import { Show } from 'solid-js'
+import type { TimeRange } from '../types'
+import { DEFAULT_ONE_POINT_SECONDS } from '../utils/baro-calibration'
+
+interface TimeWindowPanelProps {
+  // Brushed or zoomed window of the altitude chart, null when it shows everything
+  selection: TimeRange | null
+  calibrationRange: TimeRange | null
+  evaluationRange: TimeRange | null
+  wholeFlight: boolean // the method fits across the whole span by default
+  onCalibrationRangeChange: (range: TimeRange | null) => void
+  onEvaluationRangeChange: (range: TimeRange | null) => void
+}
+
+const formatRange = (range: TimeRange) => {
+  const minutes = (range.end - range.start) / 60_000
+  return `${new Date(range.start).toLocaleTimeString()} – ${new Date(range.end).toLocaleTimeString()} (${minutes.toFixed(1)} min)`
+}
+
+// Assigns the chart's brushed or zoomed window to calibration or to the statistics
+export const TimeWindowPanel: Component<TimeWindowPanelProps> = (props) => {
+  const buttonClass =
+    'px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-default'
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <h3 class="font-semibold text-gray-900 mb-3">Time Windows</h3>
+
+      <div class="flex items-center gap-3 text-sm">
+        <span class="font-medium w-24">Selection:</span>
+        <span class="text-gray-600 flex-1">
+          {props.selection
+            ? formatRange(props.selection)
+            : 'none, brush a window with the chart toolbox or zoom in'}
+        </span>
+        <button
+          type="button"
+          class={buttonClass}
+          disabled={!props.selection}
+          onClick={() => props.onCalibrationRangeChange(props.selection)}
+        >
+          Calibrate on this window
+        </button>
+        <button
+          type="button"
+          class={buttonClass}
+          disabled={!props.selection}
+          onClick={() => props.onEvaluationRangeChange(props.selection)}
+        >
+          Evaluate on this window
+        </button>
+      </div>
+
+      <div class="mt-3 space-y-1 text-sm">
+        <div class="flex items-center gap-3">
+          <span class="font-medium w-24">Calibration:</span>
+          <span class="text-gray-600">
+            {props.calibrationRange
+              ? formatRange(props.calibrationRange)
+              : props.wholeFlight
+                ? 'whole shared span'
+                : `first ${DEFAULT_ONE_POINT_SECONDS} s of the shared span`}
+          </span>
+          <Show when={props.calibrationRange}>
+            <button
+              type="button"
+              class="text-blue-600 hover:text-blue-800 underline"
+              onClick={() => props.onCalibrationRangeChange(null)}
+            >
+              Clear
+            </button>
+          </Show>
+        </div>
+        <div class="flex items-center gap-3">
+          <span class="font-medium w-24">Evaluation:</span>
+          <span class="text-gray-600">
+            {props.evaluationRange ? formatRange(props.evaluationRange) : 'whole shared span'}
+          </span>
+          <Show when={props.evaluationRange}>
+            <button
+              type="button"
+              class="text-blue-600 hover:text-blue-800 underline"
+              onClick={() => props.onEvaluationRangeChange(null)}
+            >
+              Clear
+            </button>
+          </Show>
+        </div>
+      </div>
+      <div class="mt-2 text-xs text-gray-500">
+        Statistics, the flight-phase tables and the holdout scores cover the evaluation window. A
+        calibration window combines with the flight phases chosen under Calibrate on.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import type { Component } from 'solid-js'
+import { For, Show } from 'solid-js'
+import type { CalibrationInfo, ResidualStats } from '../types'
+
+interface ValidationTableProps {
+  validation: CalibrationInfo['validation']
+}
+
+const StatsCells: Component<{ stats: ResidualStats | null }> = (props) => (
+  <Show
+    when={props.stats}
+    fallback={
+      <td colSpan={3} class="px-2 py-1 text-center text-gray-400">
+        –
+      </td>
+    }
+  >
+    {(stats) => (
+      <>
+        <td class="px-2 py-1 text-right font-mono">{stats().bias.toFixed(1)}</td>
+        <td class="px-2 py-1 text-right font-mono">{stats().rmse.toFixed(1)}</td>
+        <td class="px-2 py-1 text-right font-mono">{stats().percentile95.toFixed(1)}</td>
+      </>
+    )}
+  </Show>
+)
+
+// Calibrated baro minus reference, on the fitted points and on held-out folds
+export const ValidationTable: Component<ValidationTableProps> = (props) => {
+  return (
+    <div class="p-4 bg-gray-50 border border-gray-200 rounded">
+      <h3 class="font-semibold text-gray-900 mb-3">Residuals vs Reference</h3>
+      <table class="text-sm w-full">
+        <thead>
+          <tr>
+            <th />
+            <th colSpan={3} class="px-2 py-1 text-center font-medium text-gray-600">
+              In-sample
+            </th>
+            <Show when={props.validation.folds > 0}>
+              <th colSpan={3} class="px-2 py-1 text-center font-medium text-gray-600">
+                Out-of-sample ({props.validation.folds} folds)
+              </th>
+            </Show>
+          </tr>
+          <tr>
+            <th />
+            <For each={props.validation.folds > 0 ? [0, 1] : [0]}>
+              {() => (
+                <>
+                  <th class="px-2 py-1 text-right font-medium text-gray-600">Bias</th>
+                  <th class="px-2 py-1 text-right font-medium text-gray-600">RMSE</th>
+                  <th class="px-2 py-1 text-right font-medium text-gray-600">P95</th>
+                </>
+              )}
+            </For>
+          </tr>
+        </thead>
+        <tbody>
+          <For each={props.validation.instruments}>
+            {(instrument, i) => (
+              <tr class="border-t border-gray-200">
+                <th class="px-2 py-1 text-left font-medium text-gray-600">Baro{i() + 1}</th>
+                <StatsCells stats={instrument.inSample} />
+                <Show when={props.validation.folds > 0}>
+                  <StatsCells stats={instrument.outOfSample} />
+                </Show>
+              </tr>
+            )}
+          </For>
+        </tbody>
+      </table>
+      <div class="mt-2 text-xs text-gray-500">
+        Calibrated baro minus reference: mean (bias), RMS and 95th percentile of the absolute value
+        (m). Out-of-sample points are predicted by a fit that did not see their fold.
+      </div>
+    </div>
+  )
+}
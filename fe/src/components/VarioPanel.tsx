@@ -0,0 +1,205 @@
+import * as echarts from 'echarts'
+import type { Component } from 'solid-js'
+import { createEffect, createSignal, For, onCleanup, onMount } from 'solid-js'
+import type { DifferenceMatrix, TimeRange, VarioAnalytics, VarioComparison } from '../types'
+import { getInstrumentColors } from '../utils/instrument-colors'
+import { LINKED_CHART_GROUP } from './DifferenceChart'
+
+interface VarioPanelProps {
+  comparison: VarioComparison
+  timeRange: TimeRange | null
+  onWindowChange: (windowSeconds: number) => void
+}
+
+const WINDOW_OPTIONS = [1, 2, 5, 10, 20]
+
+function pairRows(prefix: string, matrix: DifferenceMatrix<VarioAnalytics>) {
+  const rows: Array<{ label: string; stats: VarioAnalytics }> = []
+  for (let i = 0; i < matrix.length; i++) {
+    for (let j = i + 1; j < matrix.length; j++) {
+      const stats = matrix[i][j]
+      if (stats) rows.push({ label: `${prefix}${i + 1} − ${prefix}${j + 1}`, stats })
+    }
+  }
+  return rows
+}
+
+const formatNoise = (noise: number | null) => (noise === null ? '–' : noise.toFixed(2))
+
+// Vertical speed of every calibrated baro and GPS, with noise and pairwise agreement
+export const VarioPanel: Component<VarioPanelProps> = (props) => {
+  let chartRef: HTMLDivElement | undefined
+  const [chart, setChart] = createSignal<echarts.ECharts | null>(null)
+
+  onMount(() => {
+    if (chartRef) {
+      const chartInstance = echarts.init(chartRef)
+      chartInstance.group = LINKED_CHART_GROUP
+      echarts.connect(LINKED_CHART_GROUP)
+      setChart(chartInstance)
+
+      const handleResize = () => chartInstance.resize()
+      window.addEventListener('resize', handleResize)
+
+      onCleanup(() => {
+        window.removeEventListener('resize', handleResize)
+        chartInstance.dispose()
+      })
+    }
+  })
+
+  createEffect(() => {
+    const chartInstance = chart()
+    if (!chartInstance) return
+
+    const trace = (kind: 'baro' | 'gps', data: Array<[number, number]>, i: number) => {
+      const color = getInstrumentColors(i)[kind]
+      return {
+        name: `${kind}${i + 1}`,
+        type: 'line',
+        data,
+        smooth: false,
+        symbol: 'none',
+        lineStyle: { width: kind === 'baro' ? 1.5 : 1, color },
+        itemStyle: { color },
+      }
+    }
+    const series = [
+      ...props.comparison.baroTraces.map((data, i) => trace('baro', data, i)),
+      ...props.comparison.gpsTraces.map((data, i) => trace('gps', data, i)),
+    ]
+
+    // GPS traces start hidden, they are much noisier than the baro ones
+    const selected = Object.fromEntries(series.map((s) => [s.name, s.name.startsWith('baro')]))
+
+    chartInstance.setOption(
+      {
+        tooltip: {
+          trigger: 'axis',
+          valueFormatter: (value: number) => `${value.toFixed(2)} m/s`,
+        },
+        legend: { data: series.map((s) => s.name), selected, top: 0, type: 'scroll' },
+        grid: { left: '3%', right: '4%', bottom: 40, top: 40, containLabel: true },
+        xAxis: {
+          type: 'time',
+          min: props.timeRange?.start,
+          max: props.timeRange?.end,
+          axisLabel: {
+            formatter: (value: number) => new Date(value).toLocaleTimeString(),
+          },
+        },
+        yAxis: {
+          type: 'value',
+          name: 'Vertical speed (m/s)',
+          axisLabel: { formatter: '{value} m/s' },
+        },
+        // Mirrors the main chart's dataZoom layout so linked zoom actions apply here too
+        dataZoom: [
+          { type: 'inside', start: 0, end: 100 },
+          { type: 'slider', start: 0, end: 100, height: 16, bottom: 8 },
+        ],
+        series,
+      },
+      true,
+    )
+  })
+
+  const rows = () => [
+    ...pairRows('baro', props.comparison.baroMatrix),
+    ...pairRows('gps', props.comparison.gpsMatrix),
+  ]
+
+  return (
+    <div class="p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div class="flex items-center justify-between mb-2">
+        <h3 class="font-semibold text-gray-900">Vertical Speed</h3>
+        <label class="flex items-center gap-1.5 text-sm">
+          Smoothing window
+          <select
+            class="border border-gray-300 rounded px-2 py-1"
+            value={props.comparison.windowSeconds}
+            onChange={(e) => props.onWindowChange(Number.parseFloat(e.currentTarget.value))}
+          >
+            <For each={WINDOW_OPTIONS}>
+              {(seconds) => <option value={seconds}>{seconds} s</option>}
+            </For>
+          </select>
+        </label>
+      </div>
+
+      <div ref={chartRef} class="w-full" style={{ height: '280px' }} />
+
+      <div class="flex gap-4 mt-3">
+        <div class="p-4 bg-gray-50 border border-gray-200 rounded">
+          <h4 class="font-semibold text-gray-900 mb-2">Noise (m/s)</h4>
+          <table class="text-sm">
+            <thead>
+              <tr>
+                <th />
+                <th class="px-2 py-1 text-right font-medium text-gray-600">Baro</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">GPS</th>
+              </tr>
+            </thead>
+            <tbody>
+              <For each={props.comparison.baroNoise}>
+                {(noise, i) => (
+                  <tr class="border-t border-gray-200">
+                    <th class="px-2 py-1 text-left font-medium text-gray-600">File {i() + 1}</th>
+                    <td class="px-2 py-1 text-right font-mono">{formatNoise(noise)}</td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {formatNoise(props.comparison.gpsNoise[i()])}
+                    </td>
+                  </tr>
+                )}
+              </For>
+            </tbody>
+          </table>
+        </div>
+
+        <div class="flex-1 p-4 bg-gray-50 border border-gray-200 rounded">
+          <h4 class="font-semibold text-gray-900 mb-2">Agreement</h4>
+          <table class="text-sm w-full">
+            <thead>
+              <tr>
+                <th />
+                <th class="px-2 py-1 text-right font-medium text-gray-600">Mean</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">RMS</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">P95</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">Max</th>
+                <th class="px-2 py-1 text-right font-medium text-gray-600">Correlation</th>
+              </tr>
+            </thead>
+            <tbody>
+              <For each={rows()}>
+                {(row) => (
+                  <tr class="border-t border-gray-200">
+                    <th class="px-2 py-1 text-left font-medium text-gray-600">{row.label}</th>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {row.stats.meanDifference.toFixed(2)}
+                    </td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {row.stats.rmsDifference.toFixed(2)}
+                    </td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {row.stats.percentile95.toFixed(2)}
+                    </td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {row.stats.maxDifference.toFixed(2)}
+                    </td>
+                    <td class="px-2 py-1 text-right font-mono">
+                      {row.stats.correlation.toFixed(3)}
+                    </td>
+                  </tr>
+                )}
+              </For>
+            </tbody>
+          </table>
+          <div class="mt-2 text-xs text-gray-500">
+            Vertical speed differences (m/s); P95 and max are of |difference|. Noise is the spread
+            of each trace around its own long moving average.
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+// Synthetic flights for the tests, written out in the track formats the app reads
+
+export interface FixtureSample {
+  timestamp: number // ms
+  latitude: number
+  longitude: number
+  gpsAltitude: number | null
+  pressureAltitude: number | null
+}
+
+export const FIXTURE_START = Date.UTC(2025, 6, 15, 10, 0, 0)
+
+// A climb-and-glide profile with thermal-sized wiggles, so vertical speed has features to
+// correlate on
+export function flightAltitude(seconds: number): number {
+  return (
+    1000 +
+    400 * Math.sin((2 * Math.PI * seconds) / 900) +
+    40 * Math.sin((2 * Math.PI * seconds) / 53)
+  )
+}
+
+// One fix per second; `baro` maps the true altitude to what the logger's baro reads
+export function flightSamples(
+  seconds: number,
+  baro: ((altitude: number, s: number) => number) | null = (altitude) => altitude,
+  gps: ((altitude: number, s: number) => number) | null = (altitude) => altitude,
+): Array<FixtureSample> {
+  return Array.from({ length: seconds }, (_, s) => {
+    const altitude = flightAltitude(s)
+    return {
+      timestamp: FIXTURE_START + s * 1000,
+      latitude: 47 + s * 1e-5,
+      longitude: 8 + s * 2e-5,
+      gpsAltitude: gps ? gps(altitude, s) : null,
+      pressureAltitude: baro ? baro(altitude, s) : null,
+    }
+  })
+}
+
+const pad = (value: number, length: number) => String(Math.round(value)).padStart(length, '0')
+
+function igcCoordinate(value: number, degreeDigits: number, hemispheres: string): string {
+  const abs = Math.abs(value)
+  const degrees = Math.floor(abs)
+  const thousandthMinutes = Math.round((abs - degrees) * 60_000)
+  return `${pad(degrees, degreeDigits)}${pad(thousandthMinutes, 5)}${hemispheres[value < 0 ? 1 : 0]}`
+}
+
+// IGC text with whole-metre altitudes; `date` false leaves out the HFDTE header
+export function toIGC(samples: Array<FixtureSample>, { date = true } = {}): string {
+  const day = new Date(samples[0].timestamp).toISOString()
+  const lines = ['AXXX001 Fixture']
+  if (date) lines.push(`HFDTE${day.slice(8, 10)}${day.slice(5, 7)}${day.slice(2, 4)}`)
+  for (const sample of samples) {
+    const time = new Date(sample.timestamp).toISOString()
+    lines.push(
+      `B${time.slice(11, 13)}${time.slice(14, 16)}${time.slice(17, 19)}` +
+        `${igcCoordinate(sample.latitude, 2, 'NS')}${igcCoordinate(sample.longitude, 3, 'EW')}A` +
+        `${pad(sample.pressureAltitude ?? 0, 5)}${pad(sample.gpsAltitude ?? 0, 5)}`,
+    )
+  }
+  return `${lines.join('\n')}\n`
+}
+
+export function toGPX(samples: Array<FixtureSample>): string {
+  const points = samples.map(
+    (sample) =>
+      `<trkpt lat="${sample.latitude}" lon="${sample.longitude}"><ele>${sample.gpsAltitude}</ele>` +
+      `<time>${new Date(sample.timestamp).toISOString()}</time></trkpt>`,
+  )
+  return `<?xml version="1.0"?>\n<gpx version="1.1"><trk><trkseg>\n${points.join('\n')}\n</trkseg></trk></gpx>\n`
+}
+
+export function toKML(samples: Array<FixtureSample>): string {
+  const whens = samples.map((sample) => `<when>${new Date(sample.timestamp).toISOString()}</when>`)
+  const coords = samples.map(
+    (sample) => `<gx:coord>${sample.longitude} ${sample.latitude} ${sample.gpsAltitude}</gx:coord>`,
+  )
+  return (
+    '<kml xmlns:gx="http://www.google.com/kml/ext/2.2"><Placemark><gx:Track>\n' +
+    `${whens.join('\n')}\n${coords.join('\n')}\n</gx:Track></Placemark></kml>\n`
+  )
+}
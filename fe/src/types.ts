@@ -1,4 +1,5 @@
 import type IGCParser from 'igc-parser'
+import type { CalibrationModel } from './utils/baro-calibration'
 
 export interface BaroAnalytics {
   meanDifference: number
@@ -12,28 +13,199 @@ export interface GPSAnalytics {
   percentile95: number
 }
 
-export interface CalibrationInfo {
-  // Calibration functions
-  calibrateBaro1: (h: number) => number
-  calibrateBaro2: (h: number) => number
+// Response lag from vertical-speed cross-correlation, positive when the baro trails
+export interface BaroLag {
+  lagMs: number
+  correlation: number
+}
+
+// Pairwise vertical-speed agreement (m/s)
+export interface VarioAnalytics {
+  meanDifference: number
+  maxDifference: number
+  percentile95: number
+  rmsDifference: number
+  correlation: number
+}
+
+export interface VarioComparison {
+  windowSeconds: number
+  // Vertical speed (m/s) per instrument on the common grid, as [timestamp, value]
+  baroTraces: Array<Array<[number, number]>>
+  gpsTraces: Array<Array<[number, number]>>
+  // RMS of each trace around a long moving average of itself (m/s), null without data
+  baroNoise: Array<number | null>
+  gpsNoise: Array<number | null>
+  baroMatrix: DifferenceMatrix<VarioAnalytics>
+  gpsMatrix: DifferenceMatrix<VarioAnalytics>
+}
+
+export type FlightPhase = 'pre-flight' | 'climb' | 'cruise' | 'descent' | 'post-flight'
+
+export interface PhaseSegment extends TimeRange {
+  phase: FlightPhase
+}
+
+// Pairwise statistics over every segment of one phase, pooled
+export interface PhaseAnalytics {
+  phase: FlightPhase
+  seconds: number
+  baroMatrix: DifferenceMatrix<BaroAnalytics>
+  gpsMatrix: DifferenceMatrix<GPSAnalytics>
+}
+
+// Statistics of the shared samples whose reference altitude falls in [min, max)
+export interface AltitudeBand {
+  min: number // m
+  max: number // m
+  seconds: number
+  // Calibrated baro minus reference, one entry per instrument
+  errors: Array<ResidualStats | null>
+  baroMatrix: DifferenceMatrix<BaroAnalytics>
+}
+
+export type QualitySeries = 'baro' | 'gps'
+
+export type QualityIssueKind = 'spike' | 'stuck' | 'gap' | 'vertical-speed'
+
+// A suspicious stretch of one series as an inclusive fix index range, so it survives clock
+// offsets. `size` is the spike or jump height (m), the stuck or gap duration (s), or the
+// vertical speed (m/s).
+export interface QualityIssue {
+  series: QualitySeries
+  kind: QualityIssueKind
+  start: number
+  end: number
+  size: number
+}
+
+// Allan deviation (m) at averaging time tau (s), from `count` block differences
+export interface AllanPoint {
+  tau: number
+  deviation: number
+  count: number
+}
+
+export interface SeriesNoise {
+  // RMS around a local linear fit (m), null without stable segments
+  residualRMS: number | null
+  allan: Array<AllanPoint>
+}
+
+// Noise of every raw baro and GPS series over the stable stretches of the flight
+export interface NoiseAnalysis {
+  segments: Array<TimeRange>
+  baro: Array<SeriesNoise>
+  gps: Array<SeriesNoise>
+}
+
+// Calibrated baro minus reference altitude (m)
+export interface ResidualStats {
+  bias: number
+  rmse: number
+  percentile95: number // of |residual|
+  count: number
+}
+
+export interface InstrumentValidation {
+  // Over the points the calibration was fitted to
+  inSample: ResidualStats | null
+  // Over every shared point, each predicted by a fit that excluded its fold
+  outOfSample: ResidualStats | null
+}
+
+// Pairwise statistics indexed as [i][j] = instrument i minus instrument j (diagonal is null)
+export type DifferenceMatrix<T> = Array<Array<T | null>>
+
+export interface InstrumentCalibration {
+  // Calibration function of raw baro altitude and timestamp (ms)
+  calibrateBaro: (h: number, t: number) => number
+  // The same function as plain data, which survives posting to and from a worker
+  model: CalibrationModel
 
   // Mean correction in altitude space (m) over calibration set
-  baro1Offset?: number
-  baro2Offset?: number
+  offset?: number
 
   // Altitude-domain linear params (when applicable)
-  baro1Slope?: number
-  baro2Slope?: number
+  slope?: number
 
   // Pressure-domain params (when applicable)
-  baro1PressureSlope?: number
-  baro2PressureSlope?: number
-  baro1PressureOffsetPa?: number
-  baro2PressureOffsetPa?: number
+  pressureSlope?: number
+  pressureOffsetPa?: number
+  pressureQuadratic?: number // 1/Pa, quadratic term of 'quadratic-press'
+
+  // Piecewise-linear altitude segments, h_cal = slope * h + offset for from <= h < to
+  altitudeSegments?: Array<{ from: number; to: number; slope: number; offset: number }>
+
+  // Time-varying pressure offset (drift methods); pressureOffsetPa is its value at the start
+  driftRatePaPerHour?: number
+  driftCurve?: Array<{ timestamp: number; offsetPa: number }>
+
+  // Calibration pairs with the fit's final weight of each (0 when pruned as an outlier,
+  // below 1 when down-weighted)
+  fitPoints: {
+    raw: Array<number> // raw baro altitude (m)
+    reference: Array<number> // reference altitude (m)
+    weights: Array<number>
+  }
 
   pointsUsed: number
-  baroAnalytics: BaroAnalytics
-  gpsAnalytics: GPSAnalytics
+}
+
+export interface LagAnalysis {
+  // Each baro against its own file's GPS, which shares its clock; null if not measurable
+  toGps: Array<BaroLag | null>
+  // [i][j] = lag of baro i behind baro j, measured after clock alignment
+  baroMatrix: DifferenceMatrix<BaroLag>
+  // Whether baro series were shifted by their lag to GPS before fitting and analytics
+  compensated: boolean
+}
+
+export interface CalibrationInfo {
+  // One entry per loaded file, in file order
+  instruments: Array<InstrumentCalibration>
+
+  pointsUsed: number
+  // Rate (Hz) of the common time grid the series were resampled onto
+  gridRate: number
+
+  // Atmosphere used by the pressure-domain methods
+  atmosphere: {
+    seaLevelTemperature: number // K
+    isaDeviation: number // K
+    estimated: boolean // derived from the baro-vs-GPS slope
+  }
+
+  // Null unless lag compensation or the lag display asked for it
+  lag: LagAnalysis | null
+
+  // Residuals against the reference, one entry per instrument
+  validation: {
+    folds: number // 0 when no holdout was run
+    instruments: Array<InstrumentValidation>
+  }
+
+  // Flight phases of File 1, with the pairwise statistics of each phase
+  phases: {
+    segments: Array<PhaseSegment>
+    analytics: Array<PhaseAnalytics>
+  }
+
+  // Error statistics by reference altitude band over the evaluation span, with each
+  // instrument's least-squares trend of band bias over altitude (m per 1000 m), null when
+  // fewer than two bands have data
+  altitudeBands: {
+    size: number // m
+    bands: Array<AltitudeBand>
+    trends: Array<number | null>
+  }
+
+  // First and last timestamp the fit used and the statistics cover, null when empty
+  calibrationRange: TimeRange | null
+  evaluationRange: TimeRange | null
+
+  baroMatrix: DifferenceMatrix<BaroAnalytics>
+  gpsMatrix: DifferenceMatrix<GPSAnalytics>
 }
 
 export interface TimeRange {
@@ -44,6 +216,41 @@ export interface TimeRange {
 export type IGCFile = IGCParser.IGCFile
 export type BRecord = IGCParser.BRecord
 
+// Reference surface of GPS altitude: the WGS84 ellipsoid or the geoid (mean sea level)
+export type GPSDatum = 'geoid' | 'ellipsoid'
+
+export type TrackFormat = 'IGC' | 'GPX' | 'KML' | 'CSV' | 'FIT'
+
+// What parsing noticed about a file beyond its fixes
+export interface ParseReport {
+  format: TrackFormat
+  errors: Array<string> // lines the lenient parser skipped, with the reason
+  malformedFixes: number // B records (or track points) that could not be read
+  // Flight date (YYYY-MM-DD) inferred from the filename when there is no HFDTE header
+  inferredDate: string | null
+  extensions: Array<string> // B-record extension codes declared by the I record
+}
+
 export interface IGCFileWithMetadata extends IGCFile {
   filename: string
+  gpsDatum: GPSDatum | null // declared by the file's header, null when it does not say
+  parseReport: ParseReport
+}
+
+// Spacing of a file's fixes (s)
+export interface FixRateStats {
+  fixes: number
+  medianInterval: number | null
+  minInterval: number | null
+  maxInterval: number | null
+  gaps: number // intervals too long to interpolate across
+  outOfOrder: number // fixes not later than the one before
+}
+
+export interface FileHealth {
+  rate: FixRateStats
+  invalidFixes: number // flagged 'V' (no 3D fix) by the logger
+  hasBaro: boolean
+  hasGPS: boolean
+  warnings: Array<string>
 }
@@ -0,0 +1,138 @@
+// Main-thread side of the analysis worker: track parsing and every pass over the fixes (datum
+// conversion, clock offsets, data quality, calibration, vario and noise) run there so long
+// high-rate files do not freeze the page. Calibration functions cannot be posted, so they
+// are rebuilt here from each instrument's model.
+
+import type {
+  CalibrationInfo,
+  GPSDatum,
+  IGCFileWithMetadata,
+  InstrumentCalibration,
+  NoiseAnalysis,
+  QualityIssue,
+  VarioComparison,
+} from '../types'
+import { type BaroCalibrationOptions, calibrationFunction } from './baro-calibration'
+import type { ClockOffsetEstimate, ClockOffsetSignal } from './clock-offset'
+import type { StoredTrackFile } from './session-store'
+
+// What the analysis of the loaded files depends on besides the files themselves
+export interface AnalysisSettings {
+  datumOverrides: Array<GPSDatum | null>
+  offsetSignal: ClockOffsetSignal
+  offsetOverrides: Array<number | null>
+  options: BaroCalibrationOptions
+  varioWindow: number
+}
+
+export interface Analysis {
+  // Files on the common GPS datum with their clocks aligned, as the calibration saw them
+  files: Array<IGCFileWithMetadata>
+  clockOffsets: Array<ClockOffsetEstimate>
+  qualityIssues: Array<Array<QualityIssue>>
+  // Null below two files or when a file has no fixes, and so are vario and noise
+  calibration: CalibrationInfo | null
+  vario: VarioComparison | null
+  noise: NoiseAnalysis | null
+}
+
+export type PostedCalibration = Omit<CalibrationInfo, 'instruments'> & {
+  instruments: Array<Omit<InstrumentCalibration, 'calibrateBaro'>>
+}
+
+// Aligned files are left out when they did not change since the last posted analysis
+export type PostedAnalysis = Omit<Analysis, 'files' | 'calibration'> & {
+  files?: Array<IGCFileWithMetadata>
+  calibration: PostedCalibration | null
+}
+
+export type AnalysisTask =
+  | { kind: 'parse'; files: Array<StoredTrackFile> }
+  // Files are left out when the worker already holds the same ones
+  | { kind: 'analyze'; files?: Array<IGCFileWithMetadata>; settings: AnalysisSettings }
+
+export interface AnalysisRequest {
+  id: number
+  task: AnalysisTask
+}
+
+// Tagged with the kind of the task it answers
+export type WorkerResult =
+  | { kind: 'parse'; files: Array<IGCFileWithMetadata> }
+  | { kind: 'analyze'; analysis: PostedAnalysis }
+
+export type AnalysisResponse = { id: number; result: WorkerResult } | { id: number; error: string }
+
+let worker: Worker | null = null
+// Files the worker holds, by identity, and the aligned files it last posted
+let workerFiles: Array<IGCFileWithMetadata> | null = null
+let alignedFiles: Array<IGCFileWithMetadata> = []
+let nextId = 0
+const pending = new Map<
+  number,
+  { resolve: (result: WorkerResult) => void; reject: (error: Error) => void }
+>()
+
+function getWorker(): Worker {
+  if (worker) return worker
+  const instance = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })
+  instance.addEventListener('message', (event: MessageEvent<AnalysisResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+    pending.delete(response.id)
+    if ('error' in response) request.reject(new Error(response.error))
+    else request.resolve(response.result)
+  })
+  // A crashed worker takes its requests and files with it; the next call starts a new one
+  instance.addEventListener('error', (event) => {
+    for (const request of pending.values()) request.reject(new Error(event.message))
+    pending.clear()
+    instance.terminate()
+    worker = null
+    workerFiles = null
+    alignedFiles = []
+  })
+  worker = instance
+  return instance
+}
+
+function run(task: AnalysisTask): Promise<WorkerResult> {
+  const id = nextId++
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ id, task } satisfies AnalysisRequest)
+  })
+}
+
+export async function parseTracksInWorker(
+  files: Array<StoredTrackFile>,
+): Promise<Array<IGCFileWithMetadata>> {
+  const result = await run({ kind: 'parse', files })
+  if (result.kind !== 'parse') throw new Error(`unexpected ${result.kind} result`)
+  return result.files
+}
+
+// Results arrive in request order, so the aligned files kept here always match the worker's
+export async function analyzeInWorker(
+  files: Array<IGCFileWithMetadata>,
+  settings: AnalysisSettings,
+): Promise<Analysis> {
+  const send = files !== workerFiles
+  workerFiles = files
+  const result = await run({ kind: 'analyze', files: send ? files : undefined, settings })
+  if (result.kind !== 'analyze') throw new Error(`unexpected ${result.kind} result`)
+  const { analysis } = result
+  if (analysis.files) alignedFiles = analysis.files
+  return {
+    ...analysis,
+    files: alignedFiles,
+    calibration: analysis.calibration && {
+      ...analysis.calibration,
+      instruments: analysis.calibration.instruments.map((instrument) => ({
+        ...instrument,
+        calibrateBaro: calibrationFunction(instrument.model),
+      })),
+    },
+  }
+}
@@ -0,0 +1,130 @@
+// Analysis worker: parses track files and runs the analysis for analysis-client.ts. Each step
+// is kept until its inputs change, so a new setting only redoes the steps that depend on it.
+
+import type { IGCFileWithMetadata } from '../types'
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisSettings,
+  PostedAnalysis,
+  PostedCalibration,
+} from './analysis-client'
+import {
+  calculateBaroCalibration,
+  calculateNoiseAnalysis,
+  calculateVarioComparison,
+} from './chart-calculations'
+import { applyTimeOffset, estimateClockOffsets, MIN_CLOCK_OFFSET_CONFIDENCE } from './clock-offset'
+import { assessDataQuality } from './data-quality'
+import { COMMON_GPS_DATUM, convertGPSDatum, DEFAULT_GPS_DATUM } from './geoid'
+import { parseTrackBytes } from './track-formats'
+
+// Caches one value, recomputing it when the key changes
+function step<T>() {
+  let lastKey: string | null = null
+  let value: T
+  return (key: string, compute: () => T): T => {
+    if (key !== lastKey) {
+      value = compute()
+      lastKey = key
+    }
+    return value
+  }
+}
+
+// Files of the last analysis request, reused until new ones are posted; `generation` keys
+// every step to them
+let files: Array<IGCFileWithMetadata> = []
+let generation = 0
+// Aligned files of the last posted analysis
+let postedFiles: Array<IGCFileWithMetadata> | null = null
+
+const datumStep = step<Array<IGCFileWithMetadata>>()
+const qualityStep = step<PostedAnalysis['qualityIssues']>()
+const offsetStep = step<PostedAnalysis['clockOffsets']>()
+const alignStep = step<Array<IGCFileWithMetadata>>()
+const calibrationStep = step<ReturnType<typeof calculateBaroCalibration> | null>()
+const varioStep = step<PostedAnalysis['vario']>()
+const noiseStep = step<PostedAnalysis['noise']>()
+
+function analyze(settings: AnalysisSettings): PostedAnalysis {
+  const datums = files.map(
+    (file, i) => settings.datumOverrides[i] ?? file.gpsDatum ?? DEFAULT_GPS_DATUM,
+  )
+  const datumKey = `${generation}|${datums.join(',')}`
+  // GPS altitude of every file on the common datum, before anything compares it
+  const datumFiles = datumStep(datumKey, () =>
+    files.map((file, i) => convertGPSDatum(file, datums[i], COMMON_GPS_DATUM)),
+  )
+
+  // Issues are fix index ranges, so they hold for the clock-aligned files too
+  const qualityIssues = qualityStep(`${generation}`, () => files.map(assessDataQuality))
+
+  // With lag compensation the clocks are aligned on GPS, so the baro lag is not absorbed
+  const source = settings.options.lagCompensation ? 'gps' : 'baro'
+  const clockOffsets = offsetStep(`${datumKey}|${settings.offsetSignal}|${source}`, () =>
+    estimateClockOffsets(datumFiles, { signal: settings.offsetSignal, source }),
+  )
+
+  // Low-confidence estimates fall back to no shift unless overridden by hand
+  const offsets = clockOffsets.map(
+    (estimate, i) =>
+      settings.offsetOverrides[i] ??
+      (estimate.confidence >= MIN_CLOCK_OFFSET_CONFIDENCE ? estimate.offsetMs : 0),
+  )
+  const alignKey = `${datumKey}|${offsets.join(',')}`
+  const aligned = alignStep(alignKey, () =>
+    datumFiles.map((file, i) => applyTimeOffset(file, offsets[i])),
+  )
+
+  const calibrationKey = `${alignKey}|${JSON.stringify(settings.options)}`
+  const calibration = calibrationStep(calibrationKey, () =>
+    aligned.length < 2 || aligned.some((file) => file.fixes.length === 0)
+      ? null
+      : calculateBaroCalibration(aligned, settings.options),
+  )
+  // Recomputed on its own so changing the window does not redo the calibration
+  const vario = varioStep(`${calibrationKey}|${settings.varioWindow}`, () =>
+    calibration ? calculateVarioComparison(aligned, calibration, settings.varioWindow) : null,
+  )
+  const noise = noiseStep(calibrationKey, () =>
+    calibration ? calculateNoiseAnalysis(aligned, calibration) : null,
+  )
+
+  const posted: PostedCalibration | null = calibration && {
+    ...calibration,
+    instruments: calibration.instruments.map(({ calibrateBaro, ...instrument }) => instrument),
+  }
+  return {
+    files: aligned === postedFiles ? undefined : aligned,
+    clockOffsets,
+    qualityIssues,
+    calibration: posted,
+    vario,
+    noise,
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<AnalysisRequest>) => {
+  const { id, task } = event.data
+  let response: AnalysisResponse
+  try {
+    if (task.kind === 'parse') {
+      const parsed = task.files.map((file) =>
+        parseTrackBytes(new Uint8Array(file.bytes), file.name),
+      )
+      response = { id, result: { kind: 'parse', files: parsed } }
+    } else {
+      if (task.files) {
+        files = task.files
+        generation++
+      }
+      const analysis = analyze(task.settings)
+      if (analysis.files) postedFiles = analysis.files
+      response = { id, result: { kind: 'analyze', analysis } }
+    }
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) }
+  }
+  self.postMessage(response)
+})
@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START, flightAltitude, flightSamples, toIGC } from '../test/fixtures'
+import {
+  altitudeFromPressureISA,
+  buildCalibrator,
+  CALIBRATION_METHODS,
+  estimateISADeviation,
+  pressureFromAltitudeISA,
+  resolveSeaLevelTemperature,
+  type TemperatureModel,
+} from './baro-calibration'
+import { calculateBaroCalibration } from './chart-calculations'
+import { parseIGCText } from './igc-parser'
+
+const ISA_T0 = 288.15
+
+// Raw baro altitudes from 500 to 2990 m
+const hRaw = Array.from({ length: 250 }, (_, k) => 500 + 10 * k)
+
+describe('ISA conversions', () => {
+  it('round-trip altitude through pressure', () => {
+    for (const h of [-200, 0, 1500, 4000]) {
+      expect(altitudeFromPressureISA(pressureFromAltitudeISA(h))).toBeCloseTo(h, 6)
+    }
+    expect(pressureFromAltitudeISA(0)).toBeCloseTo(101_325, 6)
+  })
+})
+
+describe('estimateISADeviation', () => {
+  it('recovers a uniform deviation and reproduces the reference when applied', () => {
+    // A day 10 K warmer than ISA: the air column is stretched by 298.15 / 288.15
+    const hRef = hRaw.map((h) =>
+      altitudeFromPressureISA(pressureFromAltitudeISA(h), 101_325, ISA_T0 + 10),
+    )
+    const deviation = estimateISADeviation(hRaw, hRef)!
+    expect(deviation).toBeCloseTo(10, 6)
+
+    const t0 = resolveSeaLevelTemperature({ mode: 'estimate' }, deviation)
+    const calibrated = hRaw.map((h) =>
+      altitudeFromPressureISA(pressureFromAltitudeISA(h), 101_325, t0),
+    )
+    calibrated.forEach((h, k) => {
+      expect(h).toBeCloseTo(hRef[k], 6)
+    })
+  })
+
+  it('needs a handful of pairs', () => {
+    expect(estimateISADeviation([1000, 1100], [1000, 1100])).toBeNull()
+  })
+})
+
+describe('resolveSeaLevelTemperature', () => {
+  it('extrapolates a ground temperature to sea level along the ISA lapse rate', () => {
+    const t0 = resolveSeaLevelTemperature(
+      { mode: 'ground-temp', groundTemperature: 20, groundElevation: 1000 },
+      null,
+    )
+    expect(t0).toBeCloseTo(293.15 + 6.5, 9)
+    expect(resolveSeaLevelTemperature({ mode: 'isa-deviation', isaDeviation: -5 }, null)).toBe(
+      ISA_T0 - 5,
+    )
+  })
+})
+
+describe('pressure-domain calibration with a temperature model', () => {
+  // A logger on a day 10 K warmer than ISA: its standard-atmosphere altitude reads short of
+  // the true one, more so the further it is from the calibration altitude
+  const warmBaro = (h: number) =>
+    altitudeFromPressureISA(pressureFromAltitudeISA(h, 101_325, ISA_T0 + 10))
+  const files = [parseIGCText(toIGC(flightSamples(1800, warmBaro)), 'warm.igc')]
+  const maxError = (temperature: TemperatureModel) => {
+    const info = calculateBaroCalibration(files, { method: '1pt-offset-press', temperature })
+    const { calibrateBaro } = info.instruments[0]
+    return Math.max(
+      ...files[0].fixes.map((fix) =>
+        Math.abs(calibrateBaro(fix.pressureAltitude!, fix.timestamp) - fix.gpsAltitude!),
+      ),
+    )
+  }
+
+  it('follows the reference across the flight with the right deviation', () => {
+    // IGC stores whole metres
+    expect(maxError({ mode: 'isa-deviation', isaDeviation: 10 })).toBeLessThan(1.5)
+    expect(maxError({ mode: 'isa' })).toBeGreaterThan(5)
+  })
+})
+
+describe('drift calibration', () => {
+  // Two hours at 1 Hz, the baro pressure wandering off the true one over time
+  const times = Array.from({ length: 7200 }, (_, s) => FIXTURE_START + s * 1000)
+  const hTrue = times.map((_, s) => flightAltitude(s))
+  const withDrift = (driftPa: (hours: number) => number) =>
+    hTrue.map((h, s) => altitudeFromPressureISA(pressureFromAltitudeISA(h) + driftPa(s / 3600)))
+  const maxError = (fn: (h: number, t: number) => number, drifting: Array<number>) =>
+    Math.max(...drifting.map((h, k) => Math.abs(fn(h, times[k]) - hTrue[k])))
+
+  it('fits a linear drift with the offset rate that cancels it', () => {
+    const drifting = withDrift((hours) => 30 * hours)
+    const calibrator = buildCalibrator(drifting, hTrue, { method: 'drift-linear-press' }, times)
+    expect(calibrator.driftRatePaPerHour).toBeCloseTo(-30, 3)
+    expect(maxError(calibrator.fn, drifting)).toBeLessThan(0.01)
+  })
+
+  it('follows a smooth drift with the spline', () => {
+    const drift = (hours: number) => 40 * Math.sin((Math.PI * hours) / 2)
+    const drifting = withDrift(drift)
+    const calibrator = buildCalibrator(drifting, hTrue, { method: 'drift-spline-press' }, times)
+    expect(maxError(calibrator.fn, drifting)).toBeLessThan(0.5)
+    // The reported curve is the pressure offset added to the raw baro
+    for (const point of calibrator.driftCurve!) {
+      expect(point.offsetPa).toBeCloseTo(-drift((point.timestamp - FIXTURE_START) / 3_600_000), 0)
+    }
+    // A straight line cannot follow it
+    const linear = buildCalibrator(drifting, hTrue, { method: 'drift-linear-press' }, times)
+    expect(maxError(linear.fn, drifting)).toBeGreaterThan(1)
+  })
+})
+
+describe('higher-order calibration', () => {
+  const maxError = (fn: (h: number, t: number) => number, hRef: Array<number>) =>
+    Math.max(...hRaw.map((h, k) => Math.abs(fn(h, 0) - hRef[k])))
+
+  it('fits a quadratic in pressure that a straight line misses', () => {
+    const pRef = (h: number) => {
+      const p = pressureFromAltitudeISA(h)
+      return p + 1e-6 * (p - 90_000) ** 2 - 200
+    }
+    const hRef = hRaw.map((h) => altitudeFromPressureISA(pRef(h)))
+    const quadratic = buildCalibrator(hRaw, hRef, { method: 'quadratic-press' })
+    expect(quadratic.pressureQuadratic).toBeCloseTo(1e-6, 9)
+    expect(maxError(quadratic.fn, hRef)).toBeLessThan(0.01)
+
+    const linear = buildCalibrator(hRaw, hRef, { method: 'linear-press' })
+    expect(maxError(linear.fn, hRef)).toBeGreaterThan(1)
+  })
+
+  it('fits a continuous piecewise line with one segment per altitude bin', () => {
+    // Reads true up to 1500 m and 5% high above
+    const hRef = hRaw.map((h) => (h <= 1500 ? h : 1500 + 0.95 * (h - 1500)))
+    const piecewise = buildCalibrator(hRaw, hRef, {
+      method: 'piecewise-alt',
+      altitudeBinSize: 500,
+    })
+    expect(maxError(piecewise.fn, hRef)).toBeLessThan(1e-6)
+    const segments = piecewise.altitudeSegments!
+    expect(segments.map(({ from }) => from)).toEqual([500, 1000, 1500, 2000, 2500])
+    expect(segments[1].slope).toBeCloseTo(1, 9)
+    expect(segments[3].slope).toBeCloseTo(0.95, 9)
+    expect(segments[3].offset).toBeCloseTo(75, 6)
+  })
+
+  it('merges bins too sparse for a segment of their own', () => {
+    const hRef = hRaw.map((h) => h + 10)
+    const segments = buildCalibrator(hRaw, hRef, { method: 'piecewise-alt', altitudeBinSize: 100 })
+      .altitudeSegments!
+    expect(segments.length).toBeGreaterThan(1)
+    for (const { from, to } of segments) {
+      expect(hRaw.filter((h) => h >= from && h <= to).length).toBeGreaterThanOrEqual(30)
+    }
+  })
+})
+
+describe('robust fitting', () => {
+  // A baro reading 3% low plus 15 m, with a little noise and a gross outlier every 25 pairs
+  const hRef = hRaw.map((h, k) => 0.97 * h + 15 + 0.5 * Math.sin(k * 1.7))
+  const outlier = (k: number) => k % 25 === 0
+
+  it('gives pruned outliers weight 0', () => {
+    const corrupted = hRef.map((h, k) => (outlier(k) ? h + (k % 50 ? 80 : -80) : h))
+    const fit = buildCalibrator(hRaw, corrupted, { method: 'linear-alt' })
+    expect(fit.altitudeSlope).toBeCloseTo(0.97, 3)
+    fit.pointWeights.forEach((weight, k) => {
+      expect(weight > 0).toBe(!outlier(k))
+    })
+  })
+
+  // One pair a minute for the drift methods, shuffled so time does not follow altitude
+  const minutes = hRaw.map((_, k) => FIXTURE_START + ((k * 97) % hRaw.length) * 60_000)
+  const outliers = hRaw.flatMap((_, k) => (outlier(k) ? [k] : []))
+  const prunedPairs = (corrupted: Array<number>) =>
+    CALIBRATION_METHODS.map((method) => ({
+      method,
+      pruned: buildCalibrator(hRaw, corrupted, { method }, minutes).pointWeights.flatMap(
+        (weight, k) => (weight === 0 ? [k] : []),
+      ),
+    }))
+  const everyMethod = (pruned: Array<number>) =>
+    CALIBRATION_METHODS.map((method) => ({ method, pruned }))
+
+  it('keeps every pair of clean data and drops symmetric outliers with every method', () => {
+    expect(prunedPairs(hRef)).toEqual(everyMethod([]))
+    const symmetric = hRef.map((h, k) => (outlier(k) ? h + (k % 50 ? 80 : -80) : h))
+    expect(prunedPairs(symmetric)).toEqual(everyMethod(outliers))
+  })
+
+  it('drops one-sided outliers and no inliers with every method', () => {
+    // The quick fit is pulled towards the outliers, which once pushed inliers past the cut
+    const oneSided = hRef.map((h, k) => (outlier(k) ? h + 80 : h))
+    expect(prunedPairs(oneSided)).toEqual(everyMethod(outliers))
+  })
+
+  it('down-weights outliers with the Huber loss', () => {
+    const corrupted = hRef.map((h, k) => (outlier(k) ? h + 80 : h))
+    const unpruned = { method: 'linear-alt', outlierSigma: Number.POSITIVE_INFINITY } as const
+    const robust = buildCalibrator(hRaw, corrupted, { ...unpruned, robust: true })
+    expect(robust.altitudeSlope).toBeCloseTo(0.97, 3)
+    expect(robust.altitudeOffset).toBeCloseTo(15, 0)
+    robust.pointWeights.forEach((weight, k) => {
+      if (outlier(k)) expect(weight).toBeLessThan(0.2)
+      else expect(weight).toBeGreaterThan(0.5)
+    })
+
+    const plain = buildCalibrator(hRaw, corrupted, { ...unpruned, robust: false })
+    expect(Math.abs(plain.altitudeOffset! - 15)).toBeGreaterThan(2)
+  })
+
+  it('leaves out pairs with zero prior weight', () => {
+    const corrupted = hRef.map((h, k) => (outlier(k) ? h + 80 : h))
+    const weights = hRaw.map((_, k) => (outlier(k) ? 0 : 1))
+    const fit = buildCalibrator(
+      hRaw,
+      corrupted,
+      { method: 'linear-alt', robust: false },
+      undefined,
+      weights,
+    )
+    expect(fit.altitudeSlope).toBeCloseTo(0.97, 3)
+    expect(fit.altitudeOffset).toBeCloseTo(15, 0)
+    expect(fit.pointWeights.filter((weight) => weight === 0)).toHaveLength(10)
+  })
+})
@@ -1,22 +1,80 @@
 // Barometric calibration helpers: altitude/pressure conversions and fitting methods.
 
+import type { FlightPhase, TimeRange } from '../types'
+import type { GridRate } from './resampling'
+import type { ValidationOptions } from './validation'
+
 export type CalibrationMethod =
   | '1pt-offset-alt' // h_cal = h_raw + const (median/mean offset in altitude)
   | '1pt-offset-press' // P_cal = P_raw + const (median pressure offset), then to altitude
   | '1pt-scale-press' // P_cal = s * P_raw (median scale), then to altitude
   | 'linear-alt' // h_cal = a*h_raw + b  (robust linear fit)
   | 'linear-press' // P_cal = a*P_raw + b (robust linear in P), then to altitude
+  | 'drift-linear-press' // P_cal = P_raw + b0 + b1*t (offset drifting linearly in time)
+  | 'drift-spline-press' // P_cal = P_raw + s(t) (offset following a smooth cubic spline)
+  | 'quadratic-press' // P_cal = c*P_raw^2 + a*P_raw + b (robust quadratic in P), then to altitude
+  | 'piecewise-alt' // h_cal = continuous piecewise-linear in h_raw, one segment per altitude bin
+
+export const CALIBRATION_METHODS: Array<CalibrationMethod> = [
+  '1pt-offset-alt',
+  '1pt-offset-press',
+  '1pt-scale-press',
+  'linear-alt',
+  'linear-press',
+  'drift-linear-press',
+  'drift-spline-press',
+  'quadratic-press',
+  'piecewise-alt',
+]
+
+// 'avg-gps' averages the GPS altitude of every file, 'weighted-gps' weights each fix by its
+// reported accuracy and drops invalid ones, 'gpsN' uses file N (1-based) alone and 'baroN'
+// takes file N's uncalibrated baro as the truth
+export type ReferenceMode = 'avg-gps' | 'weighted-gps' | `gps${number}` | `baro${number}`
+
+// Window (s) a 1-point method calibrates on when no calibration range is given
+export const DEFAULT_ONE_POINT_SECONDS = 60
+
+// Multi-point methods fit across the whole flight, 1-point methods use the first seconds only
+export function usesWholeFlight(method: CalibrationMethod): boolean {
+  return !method.startsWith('1pt-')
+}
+
+export type TemperatureMode =
+  | 'isa' // standard atmosphere
+  | 'ground-temp' // measured ground temperature at a known elevation
+  | 'isa-deviation' // uniform offset from the ISA temperature profile
+  | 'estimate' // deviation derived from the baro-vs-GPS altitude slope
+
+export interface TemperatureModel {
+  mode: TemperatureMode
+  groundTemperature?: number // °C
+  groundElevation?: number // m
+  isaDeviation?: number // K
+}
 
 export interface BaroCalibrationOptions {
   method?: CalibrationMethod
-  referenceMode?: 'avg-gps' | 'gps1' | 'gps2'
-  useAllShared?: boolean
-  calibrationSeconds?: number
+  referenceMode?: ReferenceMode
+  // Fit only inside this range; without one, multi-point methods use the whole shared span
+  // and 1-point methods its first DEFAULT_ONE_POINT_SECONDS
+  calibrationRange?: TimeRange
+  evaluationRange?: TimeRange // statistics and holdout scores only inside this range
+  calibrationPhases?: Array<FlightPhase> // fit only on File 1's segments of these phases
+  gridRate?: GridRate
   robust?: boolean
   outlierSigma?: number
   maxCalibrationPoints?: number
+  altitudeBinSize?: number // m, segment width of 'piecewise-alt'
+  errorBandSize?: number // m, width of the altitude bands of the error statistics
+  temperature?: TemperatureModel
+  validation?: ValidationOptions
+  lagCompensation?: boolean // shift each baro by its response lag to GPS
+  measureLag?: boolean // estimate the response lags for display even without compensation
+  excludeQualityIssues?: boolean // leave out samples flagged by the data-quality pass
 
-  // ISA constants (overridable if desired)
+  // Atmosphere of the reference/output side of pressure-domain methods. Raw baro altitudes
+  // are always converted back to pressure with ISA, matching what the logger did.
   p0?: number
   t0?: number
   lapseRate?: number
@@ -45,6 +103,36 @@ export function altitudeFromPressureISA(p: number, p0 = ISA.p0, t0 = ISA.t0, L =
   return (t0 / L) * (1 - r ** (1 / nExp))
 }
 
+// Uniform ISA deviation (K) that explains a baro-vs-reference altitude slope. The deviation
+// is applied as a sea-level temperature, which scales every altitude by t0 / ISA.t0, so it is
+// estimated at sea level as well: slope - 1 = ΔT / ISA.t0.
+export function estimateISADeviation(hRaw: Array<number>, hRef: Array<number>): number | null {
+  if (hRaw.length < 5) return null
+  const { altitudeSlope } = buildCalibrator(hRaw, hRef, { method: 'linear-alt' })
+  if (altitudeSlope === undefined) return null
+  return (altitudeSlope - 1) * ISA.t0
+}
+
+// Sea-level temperature (K) of the chosen temperature model, `estimated` used in 'estimate' mode
+export function resolveSeaLevelTemperature(
+  model: TemperatureModel | undefined,
+  estimated: number | null,
+): number {
+  switch (model?.mode) {
+    case 'ground-temp':
+      if (model.groundTemperature === undefined) return ISA.t0
+      return model.groundTemperature + 273.15 + ISA.L * (model.groundElevation ?? 0)
+    case 'isa-deviation':
+      return ISA.t0 + (model.isaDeviation ?? 0)
+    case 'estimate':
+      return ISA.t0 + (estimated ?? 0)
+    default:
+      return ISA.t0
+  }
+}
+
+export const ISA_SEA_LEVEL_TEMPERATURE = ISA.t0
+
 // Robust helpers
 function median(v: Array<number>): number {
   if (v.length === 0) return 0
@@ -60,6 +148,19 @@ function mad(arr: Array<number>): number {
   return median(dev)
 }
 
+// Smallest value whose cumulative weight reaches half the total
+function weightedMedian(v: Array<number>, w: Array<number>): number {
+  if (v.length === 0) return 0
+  const order = v.map((_, i) => i).sort((a, b) => v[a] - v[b])
+  const half = w.reduce((acc, x) => acc + x, 0) / 2
+  let cumulative = 0
+  for (const i of order) {
+    cumulative += w[i]
+    if (cumulative >= half) return v[i]
+  }
+  return v[order[order.length - 1]]
+}
+
 function huberWeights(residuals: Array<number>, k = 1.345): Array<number> {
   const s =
     1.4826 * mad(residuals) ||
@@ -105,8 +206,236 @@ function weightedLinearRegression(
   return { a, b }
 }
 
+// Solves A·x = b by Gaussian elimination with partial pivoting; null if singular
+function solveLinearSystem(A: Array<Array<number>>, b: Array<number>): Array<number> | null {
+  const n = b.length
+  const M = A.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) return null
+    ;[M[col], M[pivot]] = [M[pivot], M[col]]
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col]
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c]
+    }
+  }
+  const x = Array(n).fill(0)
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n]
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c]
+    x[r] = sum / M[r][r]
+  }
+  return x
+}
+
+// Weighted least squares y ~ X·beta via the normal equations, with an optional quadratic
+// penalty matrix added to XᵀWX. Meant for small designs (a handful of columns).
+function weightedLeastSquares(
+  rows: Array<Array<number>>,
+  y: Array<number>,
+  w?: Array<number>,
+  penalty?: Array<Array<number>>,
+): Array<number> | null {
+  if (rows.length === 0) return null
+  const k = rows[0].length
+  const XtX: Array<Array<number>> = Array.from({ length: k }, (_, i) =>
+    penalty ? [...penalty[i]] : Array(k).fill(0),
+  )
+  const Xty: Array<number> = Array(k).fill(0)
+  for (let i = 0; i < rows.length; i++) {
+    const wi = w ? w[i] : 1
+    const row = rows[i]
+    for (let a = 0; a < k; a++) {
+      if (row[a] === 0) continue
+      Xty[a] += wi * row[a] * y[i]
+      for (let b = 0; b < k; b++) XtX[a][b] += wi * row[a] * row[b]
+    }
+  }
+  return solveLinearSystem(XtX, Xty)
+}
+
+// Iteratively reweighted (Huber) least squares on top of optional prior weights; returns
+// coefficients and final weights (prior × Huber)
+function robustLeastSquares(
+  rows: Array<Array<number>>,
+  y: Array<number>,
+  robust: boolean,
+  penalty?: Array<Array<number>>,
+  prior?: Array<number>,
+): { beta: Array<number>; weights: Array<number> } | null {
+  let w: Array<number> = prior ?? Array(rows.length).fill(1)
+  let beta: Array<number> | null = null
+  for (let iter = 0; iter < (robust ? 3 : 1); iter++) {
+    beta = weightedLeastSquares(rows, y, w, penalty)
+    if (!beta) return null
+    const coef = beta
+    const res = y.map((yi, i) => yi - rows[i].reduce((acc, x, j) => acc + x * coef[j], 0))
+    if (!robust) break
+    w = withPrior(huberWeights(res), prior)
+  }
+  return beta ? { beta, weights: w } : null
+}
+
+const withPrior = (w: Array<number>, prior?: Array<number>) =>
+  prior ? w.map((x, i) => x * prior[i]) : w
+
+// Uniform cubic B-spline basis over [start, end] with `segments` spans (segments + 3 functions)
+function cubicBSplineBasis(t: number, start: number, end: number, segments: number) {
+  const u = Math.min(Math.max((t - start) / (end - start || 1), 0), 1) * segments
+  const k = Math.min(Math.floor(u), segments - 1)
+  const x = u - k
+  const row: Array<number> = Array(segments + 3).fill(0)
+  row[k] = (1 - x) ** 3 / 6
+  row[k + 1] = (3 * x ** 3 - 6 * x ** 2 + 4) / 6
+  row[k + 2] = (-3 * x ** 3 + 3 * x ** 2 + 3 * x + 1) / 6
+  row[k + 3] = x ** 3 / 6
+  return row
+}
+
+// Second-difference roughness penalty (P-spline) scaled by lambda
+function secondDifferencePenalty(size: number, lambda: number): Array<Array<number>> {
+  const P: Array<Array<number>> = Array.from({ length: size }, () => Array(size).fill(0))
+  for (let i = 0; i + 2 < size; i++) {
+    const d = [1, -2, 1]
+    for (let a = 0; a < 3; a++) {
+      for (let b = 0; b < 3; b++) P[i + a][i + b] += lambda * d[a] * d[b]
+    }
+  }
+  return P
+}
+
+// Spline knot spacing for 'drift-spline-press'
+const DRIFT_SPLINE_KNOT_MS = 30 * 60 * 1000
+
+// Number of points in the reported drift curve
+const DRIFT_CURVE_POINTS = 100
+
+// Segments of 'piecewise-alt' need at least this many points, sparser bins are merged
+const MIN_POINTS_PER_SEGMENT = 30
+
+export interface AltitudeSegment {
+  from: number
+  to: number
+  slope: number
+  offset: number
+}
+
+export interface DriftPoint {
+  timestamp: number
+  offsetPa: number
+}
+
+// Atmosphere the calibrated pressure is turned back into altitude with
+interface Atmosphere {
+  p0: number
+  t0: number
+  L: number
+}
+
+// Plain-data description of a fitted calibration, from which `calibrationFunction` rebuilds
+// the function, e.g. after the result was posted from a worker. Pressure models act on the
+// standard-atmosphere pressure of the raw altitude.
+export type CalibrationModel =
+  | { kind: 'identity' }
+  | { kind: 'altitude-linear'; slope: number; offset: number }
+  // Hinge basis [1, h, max(0, h - k1), ...] in km relative to hMin
+  | { kind: 'altitude-hinge'; hMin: number; knots: Array<number>; beta: Array<number> }
+  // p_cal = beta0 + beta1 x + beta2 x^2 with x = (p - center) / scale
+  | {
+      kind: 'pressure-polynomial'
+      center: number
+      scale: number
+      beta: Array<number>
+      atmosphere: Atmosphere
+    }
+  // Pressure offset linear in hours since tStart, held constant outside [tStart, tEnd]
+  | {
+      kind: 'pressure-drift-linear'
+      tStart: number
+      tEnd: number
+      beta: Array<number>
+      atmosphere: Atmosphere
+    }
+  // Pressure offset as a cubic B-spline over [tStart, tEnd], `fallback` when the fit failed
+  | {
+      kind: 'pressure-drift-spline'
+      tStart: number
+      tEnd: number
+      segments: number
+      beta: Array<number> | null
+      fallback: number
+      atmosphere: Atmosphere
+    }
+
+const clampPressure = (p: number) => Math.min(Math.max(p, 5_000), 110_000)
+
+// Pressure offset (Pa) of a drift model at time t
+function driftOffsetAt(
+  model: Extract<CalibrationModel, { kind: 'pressure-drift-linear' | 'pressure-drift-spline' }>,
+  t: number,
+): number {
+  if (model.kind === 'pressure-drift-linear') {
+    const clamped = Math.min(Math.max(t, model.tStart), model.tEnd)
+    return model.beta[0] + model.beta[1] * ((clamped - model.tStart) / 3_600_000)
+  }
+  const { beta } = model
+  if (!beta) return model.fallback
+  return cubicBSplineBasis(t, model.tStart, model.tEnd, model.segments).reduce(
+    (acc, x, j) => acc + x * beta[j],
+    0,
+  )
+}
+
+// Calibration function of raw baro altitude and timestamp (ms) described by a model
+export function calibrationFunction(model: CalibrationModel): (hRaw: number, t: number) => number {
+  switch (model.kind) {
+    case 'identity':
+      return (h) => h
+    case 'altitude-linear':
+      return (h) => model.slope * h + model.offset
+    case 'altitude-hinge': {
+      const { hMin, knots, beta } = model
+      return (h) =>
+        [1, (h - hMin) / 1000, ...knots.map((k) => Math.max(0, h - k) / 1000)].reduce(
+          (acc, v, j) => acc + v * beta[j],
+          0,
+        )
+    }
+    case 'pressure-polynomial': {
+      const { center, scale, beta, atmosphere } = model
+      return (h) => {
+        const x = (pressureFromAltitudeISA(h) - center) / scale
+        const pc = beta.reduce((acc, b, k) => acc + b * x ** k, 0)
+        return altitudeFromPressureISA(
+          clampPressure(pc),
+          atmosphere.p0,
+          atmosphere.t0,
+          atmosphere.L,
+        )
+      }
+    }
+    default: {
+      const { atmosphere } = model
+      return (h, t) => {
+        const pc = pressureFromAltitudeISA(h) + driftOffsetAt(model, t)
+        return altitudeFromPressureISA(
+          clampPressure(pc),
+          atmosphere.p0,
+          atmosphere.t0,
+          atmosphere.L,
+        )
+      }
+    }
+  }
+}
+
 export interface Calibrator {
-  fn: (hRaw: number) => number
+  // Static methods ignore the timestamp; drift methods evaluate their offset at it
+  fn: (hRaw: number, t: number) => number
+  model: CalibrationModel
   pointsUsed: number
 
   // Internal parameters (reporting)
@@ -114,13 +443,28 @@ export interface Calibrator {
   altitudeOffset?: number
   pressureSlope?: number
   pressureOffset?: number
+  pressureQuadratic?: number
+  altitudeSegments?: Array<AltitudeSegment>
+  driftRatePaPerHour?: number
+  driftCurve?: Array<DriftPoint>
+
+  // Final weight of every input pair, in input order: 0 when dropped by the outlier pruning
+  // (or not finite), below 1 when down-weighted by the Huber loss. Prior weights multiply in.
+  pointWeights: Array<number>
 }
 
+const withModel = (model: CalibrationModel) => ({ model, fn: calibrationFunction(model) })
+
 // Build a calibrator from raw altitude -> calibrated altitude, using the chosen method.
+// `times` (ms) are only needed by the drift methods. `weights` are prior per-pair weights
+// (e.g. reference fix quality): pairs weighted 0 are left out, the rest scale the fit, and
+// the 1-point methods take weighted medians.
 export function buildCalibrator(
   hRaw: Array<number>,
   hRef: Array<number>,
   options?: BaroCalibrationOptions,
+  times?: Array<number>,
+  weights?: Array<number>,
 ): Calibrator {
   const method = options?.method ?? 'linear-alt'
   const robust = options?.robust ?? true
@@ -130,38 +474,65 @@ export function buildCalibrator(
   const L = options?.lapseRate ?? ISA.L
 
   let pairs = hRaw
-    .map((h, i) => ({ h, href: hRef[i] }))
-    .filter((p) => Number.isFinite(p.h) && Number.isFinite(p.href))
+    .map((h, i) => ({ h, href: hRef[i], t: times?.[i] ?? 0, w: weights?.[i] ?? 1, index: i }))
+    .filter((p) => Number.isFinite(p.h) && Number.isFinite(p.href) && p.w > 0)
 
   if (pairs.length === 0) {
     return {
-      fn: (h) => h,
+      ...withModel({ kind: 'identity' }),
       pointsUsed: 0,
+      pointWeights: hRaw.map(() => 0),
     }
   }
 
-  // Light outlier pruning with a quick linear fit in altitude
+  const isDrift = method === 'drift-linear-press' || method === 'drift-spline-press'
+  const tStart = pairs.reduce((m, p) => Math.min(m, p.t), Number.POSITIVE_INFINITY)
+  const hours = (t: number) => (t - tStart) / 3_600_000
+
+  // Light outlier pruning with a quick linear fit in altitude (plus a time trend for the
+  // drift methods, so a drifting offset is not mistaken for outliers)
   if (pairs.length >= 5) {
-    const x = pairs.map((p) => p.h)
     const y = pairs.map((p) => p.href)
-    const lin0 = weightedLinearRegression(x, y)
-    const res = pairs.map((p) => p.href - (lin0.a * p.h + lin0.b))
+    let res: Array<number>
+    if (isDrift) {
+      const rows = pairs.map((p) => [p.h, 1, hours(p.t)])
+      const beta = weightedLeastSquares(rows, y) ?? [1, 0, 0]
+      res = pairs.map((p, i) => p.href - rows[i].reduce((acc, x, j) => acc + x * beta[j], 0))
+    } else {
+      const x = pairs.map((p) => p.h)
+      const lin0 = weightedLinearRegression(x, y)
+      res = pairs.map((p) => p.href - (lin0.a * p.h + lin0.b))
+    }
     const s = 1.4826 * mad(res) || Math.sqrt(res.reduce((a, r) => a + r * r, 0) / res.length) || 1
     const thr = outlierSigma * s
-    pairs = pairs.filter((_, i) => Math.abs(res[i]) <= thr)
+    // Outliers pull the quick fit towards them, so the residuals are measured from their
+    // median, as their spread is
+    const mid = median(res)
+    pairs = pairs.filter((_, i) => Math.abs(res[i] - mid) <= thr)
   }
 
   const n = pairs.length
+  const prior = weights ? pairs.map((p) => p.w) : undefined
+  const center = (values: Array<number>) => (prior ? weightedMedian(values, prior) : median(values))
+
+  // Spreads the weights of the surviving pairs back to input order
+  const spreadWeights = (w = prior) => {
+    const pointWeights: Array<number> = hRaw.map(() => 0)
+    pairs.forEach((p, i) => {
+      pointWeights[p.index] = w ? w[i] : 1
+    })
+    return pointWeights
+  }
 
   if (method === '1pt-offset-alt') {
     const offsets = pairs.map((p) => p.href - p.h)
-    const off = median(offsets)
-    const fn = (h: number) => h + off
+    const off = center(offsets)
     return {
-      fn,
+      ...withModel({ kind: 'altitude-linear', slope: 1, offset: off }),
       pointsUsed: n,
       altitudeSlope: 1,
       altitudeOffset: off,
+      pointWeights: spreadWeights(),
     }
   }
 
@@ -170,89 +541,234 @@ export function buildCalibrator(
     const y = pairs.map((p) => p.href)
     let a = 1
     let b = 0
-    let w = Array(n).fill(1)
+    let w = prior ?? Array(n).fill(1)
     for (let iter = 0; iter < (robust ? 3 : 1); iter++) {
       const fit = weightedLinearRegression(x, y, w)
       a = fit.a
       b = fit.b
       const res = y.map((yi, i) => yi - (a * x[i] + b))
       if (!robust) break
-      w = huberWeights(res)
+      w = withPrior(huberWeights(res), prior)
     }
-    const fn = (h: number) => a * h + b
     return {
-      fn,
+      ...withModel({ kind: 'altitude-linear', slope: a, offset: b }),
       pointsUsed: n,
       altitudeSlope: a,
       altitudeOffset: b,
+      pointWeights: spreadWeights(w),
+    }
+  }
+
+  if (method === 'piecewise-alt') {
+    const binSize = options?.altitudeBinSize ?? 500
+    const x = pairs.map((p) => p.h)
+    const y = pairs.map((p) => p.href)
+    const hMin = x.reduce((m, h) => Math.min(m, h), Number.POSITIVE_INFINITY)
+    const hMax = x.reduce((m, h) => Math.max(m, h), Number.NEGATIVE_INFINITY)
+
+    // Knots at bin edges inside the data range, dropped while a segment stays too sparse
+    const knots: Array<number> = []
+    let segmentStart = hMin
+    for (let k = Math.floor(hMin / binSize) + 1; k * binSize < hMax; k++) {
+      const knot = k * binSize
+      const below = x.filter((h) => h >= segmentStart && h < knot).length
+      const above = x.filter((h) => h >= knot).length
+      if (below >= MIN_POINTS_PER_SEGMENT && above >= MIN_POINTS_PER_SEGMENT) {
+        knots.push(knot)
+        segmentStart = knot
+      }
+    }
+
+    // Hinge basis [1, h, max(0, h - k1), ...] in km relative to hMin for conditioning
+    const basis = (h: number) => [
+      1,
+      (h - hMin) / 1000,
+      ...knots.map((k) => Math.max(0, h - k) / 1000),
+    ]
+    const fit = robustLeastSquares(x.map(basis), y, robust, undefined, prior)
+    if (!fit) {
+      const off = center(y.map((yi, i) => yi - x[i]))
+      return {
+        ...withModel({ kind: 'altitude-linear', slope: 1, offset: off }),
+        pointsUsed: n,
+        altitudeSlope: 1,
+        altitudeOffset: off,
+        pointWeights: spreadWeights(),
+      }
+    }
+    const model: CalibrationModel = { kind: 'altitude-hinge', hMin, knots, beta: fit.beta }
+    const fn = calibrationFunction(model)
+
+    // Report each segment as h_cal = slope * h + offset
+    const edges = [Number.NEGATIVE_INFINITY, ...knots, Number.POSITIVE_INFINITY]
+    const altitudeSegments: Array<AltitudeSegment> = []
+    let slopeKm = fit.beta[1]
+    for (let i = 0; i < edges.length - 1; i++) {
+      if (i > 0) slopeKm += fit.beta[i + 1]
+      const slope = slopeKm / 1000
+      const probe = Number.isFinite(edges[i]) ? edges[i] : hMin
+      altitudeSegments.push({
+        from: Math.max(edges[i], hMin),
+        to: Math.min(edges[i + 1], hMax),
+        slope,
+        offset: fn(probe, 0) - slope * probe,
+      })
+    }
+
+    return {
+      fn,
+      model,
+      pointsUsed: n,
+      altitudeSegments,
+      pointWeights: spreadWeights(fit.weights),
+    }
+  }
+
+  if (method === 'quadratic-press') {
+    const pRaw = pairs.map((p) => pressureFromAltitudeISA(p.h))
+    const pRef = pairs.map((p) => pressureFromAltitudeISA(p.href, p0, t0, L))
+
+    // Fit in centred kPa for conditioning, then expand back to Pa coefficients
+    const m = pRaw.reduce((acc, p) => acc + p, 0) / pRaw.length
+    const sc = 1000
+    const rows = pRaw.map((p) => {
+      const x = (p - m) / sc
+      return [1, x, x * x]
+    })
+    const fit = robustLeastSquares(rows, pRef, robust, undefined, prior)
+    const beta = fit?.beta ?? [m, sc, 0]
+    const c = beta[2] / sc ** 2
+    const a = beta[1] / sc - (2 * beta[2] * m) / sc ** 2
+    const b = beta[0] - (beta[1] * m) / sc + (beta[2] * m * m) / sc ** 2
+
+    return {
+      ...withModel({
+        kind: 'pressure-polynomial',
+        center: m,
+        scale: sc,
+        beta,
+        atmosphere: { p0, t0, L },
+      }),
+      pointsUsed: n,
+      pressureQuadratic: c,
+      pressureSlope: a,
+      pressureOffset: b,
+      pointWeights: spreadWeights(fit?.weights),
+    }
+  }
+
+  if (isDrift) {
+    const pRaw = pairs.map((p) => pressureFromAltitudeISA(p.h))
+    const pRef = pairs.map((p) => pressureFromAltitudeISA(p.href, p0, t0, L))
+    const diffs = pRef.map((pr, i) => pr - pRaw[i])
+    const tEnd = pairs.reduce((m, p) => Math.max(m, p.t), Number.NEGATIVE_INFINITY)
+
+    const atmosphere = { p0, t0, L }
+    let model: Extract<
+      CalibrationModel,
+      { kind: 'pressure-drift-linear' | 'pressure-drift-spline' }
+    >
+    let driftRatePaPerHour: number | undefined
+    let fitWeights: Array<number> | undefined
+
+    if (method === 'drift-linear-press') {
+      const rows = pairs.map((p) => [1, hours(p.t)])
+      const fit = robustLeastSquares(rows, diffs, robust, undefined, prior)
+      const beta = fit?.beta ?? [center(diffs), 0]
+      model = { kind: 'pressure-drift-linear', tStart, tEnd, beta, atmosphere }
+      driftRatePaPerHour = beta[1]
+      fitWeights = fit?.weights
+    } else {
+      const segments = Math.max(1, Math.ceil((tEnd - tStart) / DRIFT_SPLINE_KNOT_MS))
+      const rows = pairs.map((p) => cubicBSplineBasis(p.t, tStart, tEnd, segments))
+      const penalty = secondDifferencePenalty(segments + 3, n * 1e-3)
+      const fit = robustLeastSquares(rows, diffs, robust, penalty, prior)
+      model = {
+        kind: 'pressure-drift-spline',
+        tStart,
+        tEnd,
+        segments,
+        beta: fit?.beta ?? null,
+        fallback: center(diffs),
+        atmosphere,
+      }
+      fitWeights = fit?.weights
+    }
+
+    const driftCurve: Array<DriftPoint> = []
+    for (let i = 0; i < DRIFT_CURVE_POINTS; i++) {
+      const timestamp = tStart + ((tEnd - tStart) * i) / (DRIFT_CURVE_POINTS - 1)
+      driftCurve.push({ timestamp, offsetPa: driftOffsetAt(model, timestamp) })
+    }
+
+    return {
+      ...withModel(model),
+      pointsUsed: n,
+      pressureOffset: driftOffsetAt(model, tStart),
+      driftRatePaPerHour,
+      driftCurve,
+      pointWeights: spreadWeights(fitWeights),
     }
   }
 
   if (method === '1pt-offset-press' || method === 'linear-press' || method === '1pt-scale-press') {
-    const pRaw = pairs.map((p) => pressureFromAltitudeISA(p.h, p0, t0, L))
+    const pRaw = pairs.map((p) => pressureFromAltitudeISA(p.h))
     const pRef = pairs.map((p) => pressureFromAltitudeISA(p.href, p0, t0, L))
+    const pressureModel = (beta: Array<number>): CalibrationModel => ({
+      kind: 'pressure-polynomial',
+      center: 0,
+      scale: 1,
+      beta,
+      atmosphere: { p0, t0, L },
+    })
 
     if (method === '1pt-offset-press') {
       const diffs = pRef.map((pr, i) => pr - pRaw[i])
-      const b = median(diffs)
-      const fn = (h: number) => {
-        const pr = pressureFromAltitudeISA(h, p0, t0, L)
-        const pc = pr + b
-        const pcClamped = Math.min(Math.max(pc, 5_000), 110_000)
-        return altitudeFromPressureISA(pcClamped, p0, t0, L)
-      }
+      const b = center(diffs)
       return {
-        fn,
+        ...withModel(pressureModel([b, 1])),
         pointsUsed: n,
         pressureOffset: b,
+        pointWeights: spreadWeights(),
       }
     }
 
     if (method === '1pt-scale-press') {
       const ratios = pRef.map((pref, i) => pref / (pRaw[i] || 1))
-      const s = median(ratios)
-      const fn = (h: number) => {
-        const pr = pressureFromAltitudeISA(h, p0, t0, L)
-        const pc = s * pr
-        const pcClamped = Math.min(Math.max(pc, 5_000), 110_000)
-        return altitudeFromPressureISA(pcClamped, p0, t0, L)
-      }
+      const s = center(ratios)
       return {
-        fn,
+        ...withModel(pressureModel([0, s])),
         pointsUsed: n,
         pressureSlope: s,
+        pointWeights: spreadWeights(),
       }
     }
 
     // linear-press
     let a = 1
     let b = 0
-    let w = Array(n).fill(1)
+    let w = prior ?? Array(n).fill(1)
     for (let iter = 0; iter < (robust ? 3 : 1); iter++) {
       const fit = weightedLinearRegression(pRaw, pRef, w)
       a = fit.a
       b = fit.b
       const res = pRef.map((pref, i) => pref - (a * pRaw[i] + b))
       if (!robust) break
-      w = huberWeights(res)
-    }
-    const fn = (h: number) => {
-      const pr = pressureFromAltitudeISA(h, p0, t0, L)
-      const pc = a * pr + b
-      const pcClamped = Math.min(Math.max(pc, 5_000), 110_000)
-      return altitudeFromPressureISA(pcClamped, p0, t0, L)
+      w = withPrior(huberWeights(res), prior)
     }
     return {
-      fn,
+      ...withModel(pressureModel([b, a])),
       pointsUsed: n,
       pressureSlope: a,
       pressureOffset: b,
+      pointWeights: spreadWeights(w),
     }
   }
 
   // Fallback
   return {
-    fn: (h) => h,
+    ...withModel({ kind: 'identity' }),
     pointsUsed: pairs.length,
+    pointWeights: spreadWeights(),
   }
 }
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START, flightSamples, toGPX, toIGC } from '../test/fixtures'
+import {
+  buildHistogram,
+  calculateBaroCalibration,
+  differenceSeries,
+  differencesToFirstFile,
+  findCommonTimeRange,
+} from './chart-calculations'
+import { parseIGCText } from './igc-parser'
+import { parseGPX } from './track-formats'
+
+// Three loggers on the same flight: exact, 20 m high, and 3% low with its GPS 5 m high
+const loggers = [
+  parseIGCText(toIGC(flightSamples(1800)), 'a.igc'),
+  parseIGCText(toIGC(flightSamples(1800, (h) => h + 20)), 'b.igc'),
+  parseIGCText(
+    toIGC(
+      flightSamples(
+        1800,
+        (h) => 0.97 * h,
+        (h) => h + 5,
+      ),
+    ),
+    'c.igc',
+  ),
+]
+
+describe('calculateBaroCalibration with three files', () => {
+  it('calibrates every baro and fills both matrices pairwise', () => {
+    const info = calculateBaroCalibration(loggers, {
+      method: 'linear-alt',
+      referenceMode: 'gps1',
+    })
+    expect(info.instruments).toHaveLength(3)
+    expect(info.pointsUsed).toBe(1800)
+    expect(info.instruments[1].offset).toBeCloseTo(-20, 0)
+    expect(info.instruments[2].slope).toBeCloseTo(1 / 0.97, 2)
+
+    for (let i = 0; i < 3; i++) {
+      expect(info.baroMatrix[i][i]).toBeNull()
+      for (let j = 0; j < 3; j++) {
+        if (i === j) continue
+        // Calibrated baros agree to the whole metres IGC stores
+        expect(Math.abs(info.baroMatrix[i][j]!.meanDifference)).toBeLessThan(0.5)
+        expect(info.gpsMatrix[i][j]!.meanDifference).toBe(-info.gpsMatrix[j][i]!.meanDifference)
+      }
+    }
+    expect(info.gpsMatrix[2][0]!.meanDifference).toBeCloseTo(5, 9)
+    expect(info.gpsMatrix[2][0]!.maxDifference).toBeCloseTo(5, 9)
+  })
+
+  it("takes one file's raw baro as the reference in a baro mode", () => {
+    const info = calculateBaroCalibration(loggers, {
+      method: 'linear-alt',
+      referenceMode: 'baro2',
+    })
+    expect(info.instruments[1].offset).toBeCloseTo(0, 9)
+    expect(info.instruments[1].slope).toBeCloseTo(1, 9)
+    expect(info.instruments[0].offset).toBeCloseTo(20, 0)
+  })
+
+  it('returns empty matrices when the files never overlap', () => {
+    const later = flightSamples(60).map((sample) => ({
+      ...sample,
+      timestamp: sample.timestamp + 3_600_000,
+    }))
+    const info = calculateBaroCalibration([loggers[0], parseIGCText(toIGC(later), 'late.igc')])
+    expect(info.pointsUsed).toBe(0)
+    expect(info.baroMatrix[0][1]).toEqual({ meanDifference: 0, maxDifference: 0, percentile95: 0 })
+  })
+})
+
+describe('calibration and evaluation ranges', () => {
+  const at = (seconds: number) => FIXTURE_START + seconds * 1000
+
+  it('fits 1-point methods on the first minute unless given a range', () => {
+    const plain = calculateBaroCalibration(loggers, { method: '1pt-offset-alt' })
+    expect(plain.calibrationRange).toEqual({ start: at(0), end: at(59) })
+    expect(plain.evaluationRange).toEqual({ start: at(0), end: at(1799) })
+
+    const ranged = calculateBaroCalibration(loggers, {
+      method: '1pt-offset-alt',
+      calibrationRange: { start: at(600), end: at(900) },
+    })
+    expect(ranged.calibrationRange).toEqual({ start: at(600), end: at(900) })
+    expect(ranged.pointsUsed).toBe(301)
+  })
+
+  it('keeps the statistics inside the evaluation range', () => {
+    const info = calculateBaroCalibration(loggers, {
+      method: 'linear-alt',
+      calibrationRange: { start: at(0), end: at(600) },
+      evaluationRange: { start: at(1200), end: at(1799) },
+    })
+    expect(info.evaluationRange).toEqual({ start: at(1200), end: at(1799) })
+    const evaluated = info.phases.analytics.reduce((a, phase) => a + phase.seconds, 0)
+    expect(evaluated).toBeCloseTo(600, -1)
+  })
+})
+
+describe('altitude bands', () => {
+  // A baro reading 3% low, which an offset fitted at the start leaves growing with altitude
+  const low = [parseIGCText(toIGC(flightSamples(1800, (h) => 0.97 * h)), 'low.igc')]
+
+  it('bins the errors by reference altitude and finds their trend', () => {
+    const { altitudeBands } = calculateBaroCalibration(low, { method: '1pt-offset-alt' })
+    expect(altitudeBands.size).toBe(250)
+    expect(altitudeBands.bands.map(({ min }) => min)).toEqual([500, 750, 1000, 1250])
+    for (const band of altitudeBands.bands) {
+      expect(band.max - band.min).toBe(250)
+      expect(band.seconds).toBeGreaterThanOrEqual(30)
+      expect(band.errors[0]!.count).toBe(band.seconds)
+    }
+    expect(altitudeBands.trends[0]).toBeCloseTo(-30, -1)
+  })
+
+  it('shows no trend once the slope is fitted', () => {
+    const { altitudeBands } = calculateBaroCalibration(low, {
+      method: 'linear-alt',
+      errorBandSize: 100,
+    })
+    expect(altitudeBands.bands[0].max - altitudeBands.bands[0].min).toBe(100)
+    expect(Math.abs(altitudeBands.trends[0]!)).toBeLessThan(1)
+  })
+})
+
+describe('mixed IGC and GPX files', () => {
+  // An IGC logger whose baro reads 3% high plus 20 m, and a phone GPX track without baro
+  const igc = parseIGCText(toIGC(flightSamples(1800, (h) => 1.03 * h + 20)), 'logger.igc')
+  const gpx = parseGPX(toGPX(flightSamples(1800, null)), 'phone.gpx')
+
+  it('calibrates the IGC baro against the shared GPS reference', () => {
+    const info = calculateBaroCalibration([igc, gpx], { method: 'linear-alt' })
+    expect(info.instruments).toHaveLength(2)
+    expect(info.pointsUsed).toBeGreaterThan(1000)
+    // IGC altitudes are whole metres, so the slope only comes out close to 1 / 1.03
+    expect(info.instruments[0].slope).toBeCloseTo(1 / 1.03, 3)
+  })
+
+  it('builds differences only for the altitude kinds both files have', () => {
+    const altitudeSeries = (kind: 'gps' | 'baro', fixes: typeof igc.fixes) =>
+      fixes.flatMap((fix): Array<[number, number]> => {
+        const value = kind === 'gps' ? fix.gpsAltitude : fix.pressureAltitude
+        return value === null ? [] : [[fix.timestamp, value]]
+      })
+    const series = new Map([
+      ['gps1', altitudeSeries('gps', igc.fixes)],
+      ['baro1', altitudeSeries('baro', igc.fixes)],
+      ['gps2', altitudeSeries('gps', gpx.fixes)],
+    ])
+    const differences = differencesToFirstFile(series, 2)
+    expect(differences.map(({ kind, index }) => `${kind}${index + 1}`)).toEqual(['gps2'])
+    // GPX keeps the fractional metres IGC rounds away
+    expect(Math.max(...differences[0].data.map(([, v]) => Math.abs(v)))).toBeLessThanOrEqual(0.5)
+  })
+
+  it('finds the overlap of every file', () => {
+    const late = parseGPX(toGPX(flightSamples(1800, null).slice(600)), 'late.gpx')
+    expect(findCommonTimeRange([igc, late])).toEqual({
+      start: late.fixes[0].timestamp,
+      end: igc.fixes[igc.fixes.length - 1].timestamp,
+    })
+  })
+})
+
+describe('differenceSeries', () => {
+  it("subtracts the second series interpolated at the first one's times", () => {
+    const a: Array<[number, number]> = [
+      [500, 12],
+      [1500, 14],
+      [9500, 20],
+    ]
+    const b: Array<[number, number]> = [
+      [0, 10],
+      [1000, 11],
+      [2000, 12],
+      [10_000, 20],
+    ]
+    // b has no fixes between 2 s and 10 s, so 9.5 s gets no difference
+    expect(differenceSeries(a, b)).toEqual([
+      [500, 1.5],
+      [1500, 2.5],
+    ])
+  })
+})
+
+describe('buildHistogram', () => {
+  it('bins every series on shared edges and counts spikes in the edge bins', () => {
+    const values = Array.from({ length: 1000 }, (_, k) => k / 100)
+    const histogram = buildHistogram([values, [...values, 1000]], 10)
+    expect(histogram.edges).toHaveLength(11)
+    expect(histogram.counts[0].reduce((a, c) => a + c, 0)).toBe(1000)
+    expect(histogram.counts[1][9]).toBe(histogram.counts[0][9] + 1)
+    // The spike does not stretch the bins
+    expect(histogram.edges[10]).toBeLessThan(10)
+  })
+
+  it('gives constant values a bin of their own width', () => {
+    const histogram = buildHistogram([[5, 5, 5]], 4)
+    expect(histogram.edges[0]).toBe(4.5)
+    expect(histogram.edges[4]).toBe(5.5)
+    expect(histogram.counts[0]).toEqual([0, 0, 3, 0])
+  })
+})
@@ -1,210 +1,681 @@
 import type {
+  AltitudeBand,
   BaroAnalytics,
+  BaroLag,
   BRecord,
   CalibrationInfo,
+  DifferenceMatrix,
   GPSAnalytics,
   IGCFileWithMetadata,
+  InstrumentCalibration,
+  InstrumentValidation,
+  LagAnalysis,
+  NoiseAnalysis,
   TimeRange,
+  VarioAnalytics,
+  VarioComparison,
 } from '../types'
-import { type BaroCalibrationOptions, buildCalibrator } from './baro-calibration'
+import {
+  type BaroCalibrationOptions,
+  buildCalibrator,
+  DEFAULT_ONE_POINT_SECONDS,
+  estimateISADeviation,
+  ISA_SEA_LEVEL_TEMPERATURE,
+  type ReferenceMode,
+  resolveSeaLevelTemperature,
+  usesWholeFlight,
+} from './baro-calibration'
+import { assessDataQuality, excludedFixes } from './data-quality'
+import { resampleGPSWeights } from './fix-quality'
+import { detectFlightPhases, FLIGHT_PHASES, inPhases } from './flight-phases'
+import { allanDeviation, findStableSegments, highPassResidualRMS } from './noise'
+import { buildTimeGrid, resampleLinear, resolveGridRate } from './resampling'
+import { assignFolds, DEFAULT_VALIDATION_FOLDS, residualStats } from './validation'
+import {
+  DEFAULT_VARIO_WINDOW_SECONDS,
+  estimateVarioLag,
+  MIN_LAG_CORRELATION,
+  varioNoise,
+  verticalSpeed,
+} from './vario'
 
-interface DataMaps {
-  file1BaroMap: Map<number, number>
-  file1GpsMap: Map<number, number>
-  file2BaroMap: Map<number, number>
-  file2GpsMap: Map<number, number>
+interface InstrumentMaps {
+  baroMap: Map<number, number>
+  gpsMap: Map<number, number>
 }
 
-function createDataMaps(file1: IGCFileWithMetadata, file2: IGCFileWithMetadata): DataMaps {
-  const maps: DataMaps = {
-    file1BaroMap: new Map(),
-    file1GpsMap: new Map(),
-    file2BaroMap: new Map(),
-    file2GpsMap: new Map(),
-  }
+// Baro samples of file i are moved earlier by baroShiftsMs[i] (response lag compensation).
+// Fix indices in excluded[i] are left out of that file's series (data-quality exclusion).
+function createDataMaps(
+  files: Array<IGCFileWithMetadata>,
+  grid: Array<number>,
+  baroShiftsMs?: Array<number>,
+  excluded?: Array<{ baro: Set<number>; gps: Set<number> }>,
+): Array<InstrumentMaps> {
+  return files.map((file, i) => {
+    const baroSamples: Array<{ t: number; v: number }> = []
+    const gpsSamples: Array<{ t: number; v: number }> = []
+    const baroShift = baroShiftsMs?.[i] ?? 0
 
-  file1.fixes.forEach((fix) => {
-    const secondTimestamp = Math.floor(fix.timestamp / 1000)
-    if (fix.pressureAltitude !== null) {
-      maps.file1BaroMap.set(secondTimestamp, fix.pressureAltitude)
-    }
-    if (fix.gpsAltitude !== null) {
-      maps.file1GpsMap.set(secondTimestamp, fix.gpsAltitude)
+    file.fixes.forEach((fix, k) => {
+      if (fix.pressureAltitude !== null && !excluded?.[i].baro.has(k)) {
+        baroSamples.push({ t: fix.timestamp - baroShift, v: fix.pressureAltitude })
+      }
+      if (fix.gpsAltitude !== null && !excluded?.[i].gps.has(k)) {
+        gpsSamples.push({ t: fix.timestamp, v: fix.gpsAltitude })
+      }
+    })
+
+    return {
+      baroMap: resampleLinear(baroSamples, grid),
+      gpsMap: resampleLinear(gpsSamples, grid),
     }
   })
+}
 
-  file2.fixes.forEach((fix) => {
-    const secondTimestamp = Math.floor(fix.timestamp / 1000)
-    if (fix.pressureAltitude !== null) {
-      maps.file2BaroMap.set(secondTimestamp, fix.pressureAltitude)
-    }
-    if (fix.gpsAltitude !== null) {
-      maps.file2GpsMap.set(secondTimestamp, fix.gpsAltitude)
+// Grid timestamps every series has a value at. A file without one altitude kind (e.g. a GPX
+// track) contributes only the series it has.
+function findSharedTimes(maps: Array<InstrumentMaps>): Array<number> {
+  const series = maps.flatMap((m) => [m.baroMap, m.gpsMap]).filter((map) => map.size > 0)
+  if (series.length === 0) return []
+
+  const sharedTimes: Array<number> = []
+  for (const [t] of series[0]) {
+    if (series.every((map) => map.has(t))) {
+      sharedTimes.push(t)
     }
-  })
+  }
 
-  return maps
+  return sharedTimes.sort((a, b) => a - b)
 }
 
-function findSharedSeconds(maps: DataMaps): Array<number> {
-  const sharedSeconds: Array<number> = []
+function computeStats(differences: Array<number>) {
+  if (differences.length === 0) {
+    return { meanDifference: 0, maxDifference: 0, percentile95: 0 }
+  }
+  const meanDifference = differences.reduce((a, b) => a + b, 0) / differences.length
+  // Folded rather than spread: long high-rate series overflow the argument stack
+  const maxDifference = differences.reduce((m, d) => Math.max(m, Math.abs(d)), 0)
+  const sortedAbsDifferences = differences.map(Math.abs).sort((a, b) => a - b)
+  const p95Index = Math.floor(sortedAbsDifferences.length * 0.95)
+  const percentile95 = sortedAbsDifferences[p95Index] || 0
+  return { meanDifference, maxDifference, percentile95 }
+}
 
-  for (const [second] of maps.file1BaroMap) {
-    if (
-      maps.file1GpsMap.has(second) &&
-      maps.file2BaroMap.has(second) &&
-      maps.file2GpsMap.has(second)
-    ) {
-      sharedSeconds.push(second)
+// Fills the upper triangle from `compute`, mirrors it with the mean's sign flipped. Pairs
+// `compute` has nothing for (a file lacking that series) stay null.
+function buildMatrix<T extends { meanDifference: number }>(
+  size: number,
+  compute: (i: number, j: number) => T | null,
+): DifferenceMatrix<T> {
+  const matrix: DifferenceMatrix<T> = Array.from({ length: size }, () => Array(size).fill(null))
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const stats = compute(i, j)
+      if (!stats) continue
+      matrix[i][j] = stats
+      matrix[j][i] = { ...stats, meanDifference: -stats.meanDifference }
     }
   }
-
-  return sharedSeconds.sort((a, b) => a - b)
+  return matrix
 }
 
 function calculateAnalytics(
-  sharedSeconds: Array<number>,
-  maps: DataMaps,
-  calibrate1: (h: number) => number,
-  calibrate2: (h: number) => number,
-): { baroAnalytics: BaroAnalytics; gpsAnalytics: GPSAnalytics } {
-  const baroDifferences: Array<number> = []
-  const gpsDifferences: Array<number> = []
-
-  for (const second of sharedSeconds) {
-    const baro1 = maps.file1BaroMap.get(second)
-    const baro2 = maps.file2BaroMap.get(second)
-    const gps1 = maps.file1GpsMap.get(second)
-    const gps2 = maps.file2GpsMap.get(second)
-
-    if (baro1 !== undefined && baro2 !== undefined) {
-      const calibratedBaro1 = calibrate1(baro1)
-      const calibratedBaro2 = calibrate2(baro2)
-      baroDifferences.push(calibratedBaro1 - calibratedBaro2)
+  sharedTimes: Array<number>,
+  maps: Array<InstrumentMaps>,
+  calibrators: Array<(h: number, t: number) => number>,
+): { baroMatrix: DifferenceMatrix<BaroAnalytics>; gpsMatrix: DifferenceMatrix<GPSAnalytics> } {
+  const pairDifferences = (
+    i: number,
+    j: number,
+    getValue: (index: number, t: number) => number | undefined,
+  ) => {
+    const differences: Array<number> = []
+    for (const t of sharedTimes) {
+      const a = getValue(i, t)
+      const b = getValue(j, t)
+      if (a !== undefined && b !== undefined) {
+        differences.push(a - b)
+      }
     }
+    return differences
+  }
 
-    if (gps1 !== undefined && gps2 !== undefined) {
-      gpsDifferences.push(gps1 - gps2)
-    }
+  const calibratedBaro = (index: number, t: number) => {
+    const baro = maps[index].baroMap.get(t)
+    return baro === undefined ? undefined : calibrators[index](baro, t)
   }
+  const gps = (index: number, t: number) => maps[index].gpsMap.get(t)
+
+  const pairStats = (differences: Array<number>) =>
+    differences.length > 0 ? computeStats(differences) : null
+
+  return {
+    baroMatrix: buildMatrix(maps.length, (i, j) =>
+      pairStats(pairDifferences(i, j, calibratedBaro)),
+    ),
+    gpsMatrix: buildMatrix(maps.length, (i, j) => pairStats(pairDifferences(i, j, gps))),
+  }
+}
 
-  const computeStats = (differences: Array<number>) => {
-    if (differences.length === 0) {
-      return { meanDifference: 0, maxDifference: 0, percentile95: 0 }
+// [i][j] = lag of baro i behind baro j, mirrored with the sign flipped
+function buildLagMatrix(maps: Array<InstrumentMaps>, rateHz: number): DifferenceMatrix<BaroLag> {
+  const matrix: DifferenceMatrix<BaroLag> = maps.map(() => Array(maps.length).fill(null))
+  for (let i = 0; i < maps.length; i++) {
+    for (let j = i + 1; j < maps.length; j++) {
+      const lag = estimateVarioLag(maps[j].baroMap, maps[i].baroMap, rateHz)
+      if (!lag) continue
+      matrix[i][j] = lag
+      matrix[j][i] = { ...lag, lagMs: -lag.lagMs }
     }
-    const meanDifference = differences.reduce((a, b) => a + b, 0) / differences.length
-    const maxDifference = Math.max(...differences.map(Math.abs))
-    const sortedAbsDifferences = differences.map(Math.abs).sort((a, b) => a - b)
-    const p95Index = Math.floor(sortedAbsDifferences.length * 0.95)
-    const percentile95 = sortedAbsDifferences[p95Index] || 0
-    return { meanDifference, maxDifference, percentile95 }
   }
+  return matrix
+}
 
-  return {
-    baroAnalytics: computeStats(baroDifferences),
-    gpsAnalytics: computeStats(gpsDifferences),
+// Per-file baro shift (ms) applied by lag compensation, 0 where it is off or unreliable
+export function baroLagShifts(lag: LagAnalysis | null): Array<number> {
+  if (!lag) return []
+  return lag.toGps.map((l) =>
+    lag.compensated && l && l.correlation >= MIN_LAG_CORRELATION ? l.lagMs : 0,
+  )
+}
+
+// Lags depend only on the files, the grid rate and the excluded samples, so calibration
+// settings can change without measuring them again
+const lagCache = new WeakMap<
+  Array<IGCFileWithMetadata>,
+  { key: string; lag: Omit<LagAnalysis, 'compensated'> }
+>()
+
+function measureLags(
+  files: Array<IGCFileWithMetadata>,
+  maps: Array<InstrumentMaps>,
+  gridRate: number,
+  excludeQualityIssues: boolean,
+): Omit<LagAnalysis, 'compensated'> {
+  const key = `${gridRate}:${excludeQualityIssues}`
+  const cached = lagCache.get(files)
+  if (cached?.key === key) return cached.lag
+  const lag = {
+    toGps: maps.map((m) => estimateVarioLag(m.gpsMap, m.baroMap, gridRate)),
+    baroMatrix: buildLagMatrix(maps, gridRate),
   }
+  lagCache.set(files, { key, lag })
+  return lag
+}
+
+// Resolves a reference mode to the file indices whose GPS altitude is averaged
+function referenceIndices(referenceMode: ReferenceMode, fileCount: number): Array<number> {
+  if (referenceMode.startsWith('gps')) {
+    const index = Number.parseInt(referenceMode.slice(3), 10) - 1
+    if (index >= 0 && index < fileCount) return [index]
+  }
+  return Array.from({ length: fileCount }, (_, i) => i)
+}
+
+// File whose baro is the reference in a 'baroN' mode, null for the GPS modes
+function baroReferenceIndex(referenceMode: ReferenceMode, fileCount: number): number | null {
+  if (!referenceMode.startsWith('baro')) return null
+  const index = Number.parseInt(referenceMode.slice(4), 10) - 1
+  return index >= 0 && index < fileCount ? index : null
+}
+
+// Bands with less data than this are left out (s)
+const MIN_BAND_SECONDS = 30
+
+const DEFAULT_ERROR_BAND_SIZE = 250
+
+// Bins `times` by reference altitude and computes each band's errors and baro differences
+function calculateAltitudeBands(
+  times: Array<number>,
+  refAlt: Map<number, number>,
+  maps: Array<InstrumentMaps>,
+  calibrators: Array<(h: number, t: number) => number>,
+  size: number,
+  gridRate: number,
+): CalibrationInfo['altitudeBands'] {
+  const binned = new Map<number, Array<number>>()
+  for (const t of times) {
+    const r = refAlt.get(t)
+    if (r === undefined) continue
+    const bin = Math.floor(r / size)
+    const list = binned.get(bin)
+    if (list) list.push(t)
+    else binned.set(bin, [t])
+  }
+
+  const bands: Array<AltitudeBand> = [...binned]
+    .filter(([, bandTimes]) => bandTimes.length / gridRate >= MIN_BAND_SECONDS)
+    .sort(([a], [b]) => a - b)
+    .map(([bin, bandTimes]) => ({
+      min: bin * size,
+      max: (bin + 1) * size,
+      seconds: bandTimes.length / gridRate,
+      errors: maps.map((m, i) =>
+        residualStats(
+          bandTimes.flatMap((t) => {
+            const h = m.baroMap.get(t)
+            return h === undefined ? [] : [calibrators[i](h, t) - refAlt.get(t)!]
+          }),
+        ),
+      ),
+      baroMatrix: calculateAnalytics(bandTimes, maps, calibrators).baroMatrix,
+    }))
+
+  // Count-weighted least-squares slope of bias against band centre
+  const trends = maps.map((_, i) => {
+    const points = bands.flatMap((band) => {
+      const stats = band.errors[i]
+      return stats ? [{ x: (band.min + band.max) / 2, y: stats.bias, w: stats.count }] : []
+    })
+    if (points.length < 2) return null
+    const total = points.reduce((a, p) => a + p.w, 0)
+    const mx = points.reduce((a, p) => a + p.w * p.x, 0) / total
+    const my = points.reduce((a, p) => a + p.w * p.y, 0) / total
+    const sxy = points.reduce((a, p) => a + p.w * (p.x - mx) * (p.y - my), 0)
+    const sxx = points.reduce((a, p) => a + p.w * (p.x - mx) ** 2, 0)
+    return sxx > 0 ? (sxy / sxx) * 1000 : null
+  })
+
+  return { size, bands, trends }
+}
+
+// Whether `t` falls inside `range` (ends included), always true without one
+function inTimeRange(range: TimeRange | undefined): (t: number) => boolean {
+  return (t) => !range || (t >= range.start && t <= range.end)
+}
+
+function spanOf(times: Array<number>): TimeRange | null {
+  return times.length > 0 ? { start: times[0], end: times[times.length - 1] } : null
 }
 
 export function calculateBaroCalibration(
-  file1: IGCFileWithMetadata,
-  file2: IGCFileWithMetadata,
+  files: Array<IGCFileWithMetadata>,
   options?: BaroCalibrationOptions,
 ): CalibrationInfo {
-  const maps = createDataMaps(file1, file2)
-  const sharedSeconds = findSharedSeconds(maps)
+  const timeRange = findCommonTimeRange(files)
+  const gridRate = resolveGridRate(options?.gridRate ?? 1, files)
+  const grid = timeRange ? buildTimeGrid(timeRange, gridRate) : []
+  const excluded = options?.excludeQualityIssues
+    ? files.map((file) => {
+        const issues = assessDataQuality(file)
+        return { baro: excludedFixes(issues, 'baro'), gps: excludedFixes(issues, 'gps') }
+      })
+    : undefined
+  let maps = createDataMaps(files, grid, undefined, excluded)
 
-  if (sharedSeconds.length === 0) {
+  // Response lags are measured on the unshifted series, and only when they are used or shown
+  const compensated = options?.lagCompensation ?? false
+  const lag: LagAnalysis | null =
+    compensated || options?.measureLag
+      ? {
+          ...measureLags(files, maps, gridRate, options?.excludeQualityIssues ?? false),
+          compensated,
+        }
+      : null
+  if (compensated) {
+    maps = createDataMaps(files, grid, baroLagShifts(lag), excluded)
+  }
+
+  const sharedTimes = maps.length > 0 ? findSharedTimes(maps) : []
+  const segments = files.length > 0 ? detectFlightPhases(files[0]) : []
+
+  if (sharedTimes.length === 0) {
+    const emptyStats = () => ({ meanDifference: 0, maxDifference: 0, percentile95: 0 })
     return {
-      calibrateBaro1: (h) => h,
-      calibrateBaro2: (h) => h,
+      instruments: files.map(() => ({
+        calibrateBaro: (h) => h,
+        model: { kind: 'identity' },
+        fitPoints: { raw: [], reference: [], weights: [] },
+        pointsUsed: 0,
+      })),
       pointsUsed: 0,
-      baroAnalytics: { meanDifference: 0, maxDifference: 0, percentile95: 0 },
-      gpsAnalytics: { meanDifference: 0, maxDifference: 0, percentile95: 0 },
+      gridRate,
+      atmosphere: {
+        seaLevelTemperature: ISA_SEA_LEVEL_TEMPERATURE,
+        isaDeviation: 0,
+        estimated: false,
+      },
+      lag,
+      validation: {
+        folds: 0,
+        instruments: files.map(() => ({ inSample: null, outOfSample: null })),
+      },
+      phases: { segments, analytics: [] },
+      altitudeBands: {
+        size: options?.errorBandSize ?? DEFAULT_ERROR_BAND_SIZE,
+        bands: [],
+        trends: files.map(() => null),
+      },
+      calibrationRange: null,
+      evaluationRange: null,
+      baroMatrix: buildMatrix(files.length, emptyStats),
+      gpsMatrix: buildMatrix(files.length, emptyStats),
     }
   }
 
   const referenceMode = options?.referenceMode ?? 'avg-gps'
-  const useAllShared = options?.useAllShared ?? true
-  const calibrationSeconds = options?.calibrationSeconds ?? 60
 
-  // Build reference altitude per second
+  // Build reference altitude per grid timestamp. Fix-quality weighting takes the
+  // inverse-variance mean of the valid fixes and gives the fit the mean's own weight (the sum
+  // of its inputs'), scaled to a median of 1.
+  const refIndices = referenceIndices(referenceMode, files.length).filter(
+    (i) => maps[i].gpsMap.size > 0,
+  )
+  const gpsWeights =
+    referenceMode === 'weighted-gps' ? files.map((f) => resampleGPSWeights(f.fixes, grid)) : null
+  const baroIndex = baroReferenceIndex(referenceMode, files.length)
   const refAlt = new Map<number, number>()
-  for (const s of sharedSeconds) {
-    const g1 = maps.file1GpsMap.get(s)!
-    const g2 = maps.file2GpsMap.get(s)!
-    const r = referenceMode === 'gps1' ? g1 : referenceMode === 'gps2' ? g2 : (g1 + g2) / 2
-    refAlt.set(s, r)
+  const refWeight = new Map<number, number>()
+  for (const t of sharedTimes) {
+    if (baroIndex !== null) {
+      const h = maps[baroIndex].baroMap.get(t)
+      if (h !== undefined) refAlt.set(t, h)
+      continue
+    }
+    if (!gpsWeights) {
+      const sum = refIndices.reduce((acc, i) => acc + maps[i].gpsMap.get(t)!, 0)
+      refAlt.set(t, sum / refIndices.length)
+      continue
+    }
+    let sum = 0
+    let total = 0
+    for (const i of refIndices) {
+      const w = gpsWeights[i].get(t)
+      if (w === undefined) continue
+      sum += w * maps[i].gpsMap.get(t)!
+      total += w
+    }
+    if (total > 0) {
+      refAlt.set(t, sum / total)
+      refWeight.set(t, total)
+    }
+  }
+  if (refWeight.size > 0) {
+    const sorted = [...refWeight.values()].sort((a, b) => a - b)
+    const medianWeight = sorted[Math.floor(sorted.length / 2)]
+    for (const [t, w] of refWeight) refWeight.set(t, w / medianWeight)
   }
 
-  // Determine which seconds to use for calibration
-  const secondsForCalib = useAllShared
-    ? [...sharedSeconds]
-    : sharedSeconds.slice(0, calibrationSeconds)
+  // Determine which timestamps to use for calibration: the chosen phases inside the
+  // calibration range, and without a range, the first seconds of those for 1-point methods
+  const phaseTimes = (
+    options?.calibrationPhases
+      ? sharedTimes.filter(inPhases(segments, options.calibrationPhases))
+      : sharedTimes
+  ).filter(inTimeRange(options?.calibrationRange))
+  const calibrationEnd = phaseTimes[0] + DEFAULT_ONE_POINT_SECONDS * 1000
+  const timesForCalib =
+    options?.calibrationRange || usesWholeFlight(options?.method ?? 'linear-alt')
+      ? phaseTimes
+      : phaseTimes.filter((t) => t < calibrationEnd)
+  const evaluationTimes = sharedTimes.filter(inTimeRange(options?.evaluationRange))
 
   // Build calibration pairs
-  const buildPairs = (baroMap: Map<number, number>, secs: Array<number>) => {
+  const buildPairs = (baroMap: Map<number, number>, times: Array<number>) => {
     const hRaw: Array<number> = []
     const hRef: Array<number> = []
-    for (const s of secs) {
-      const h = baroMap.get(s)
-      const r = refAlt.get(s)
+    const pairTimes: Array<number> = []
+    const weights: Array<number> = []
+    for (const t of times) {
+      const h = baroMap.get(t)
+      const r = refAlt.get(t)
       if (h !== undefined && r !== undefined && Number.isFinite(h) && Number.isFinite(r)) {
         hRaw.push(h)
         hRef.push(r)
+        pairTimes.push(t)
+        weights.push(refWeight.get(t) ?? 1)
       }
     }
-    return { hRaw, hRef }
+    return { hRaw, hRef, times: pairTimes, weights: gpsWeights ? weights : undefined }
+  }
+
+  // Temperature-aware atmosphere for the pressure-domain methods; the estimate uses the
+  // whole shared span, as a slope cannot be judged from the 1-point calibration window
+  let isaDeviationEstimate: number | null = null
+  if (options?.temperature?.mode === 'estimate') {
+    const estimates = maps
+      .map((m) => {
+        const pairs = buildPairs(m.baroMap, sharedTimes)
+        return estimateISADeviation(pairs.hRaw, pairs.hRef)
+      })
+      .filter((d): d is number => d !== null)
+    if (estimates.length > 0) {
+      isaDeviationEstimate = estimates.reduce((a, d) => a + d, 0) / estimates.length
+    }
+  }
+  const t0 = options?.temperature
+    ? resolveSeaLevelTemperature(options.temperature, isaDeviationEstimate)
+    : (options?.t0 ?? ISA_SEA_LEVEL_TEMPERATURE)
+
+  const fitOptions = { ...options, t0 }
+  const calibrationPairs = maps.map((m) => buildPairs(m.baroMap, timesForCalib))
+  const calibrators = calibrationPairs.map((pairs) =>
+    buildCalibrator(pairs.hRaw, pairs.hRef, fitOptions, pairs.times, pairs.weights),
+  )
+
+  // Holdout: each fold of the evaluation span is predicted by a fit to the calibration points
+  // outside it. Folds whose exclusion leaves nothing to fit (e.g. the one holding a 1-point
+  // window) are not scored.
+  const scheme = options?.validation?.scheme ?? 'none'
+  const folds =
+    scheme === 'none'
+      ? 0
+      : Math.max(2, Math.round(options?.validation?.folds ?? DEFAULT_VALIDATION_FOLDS))
+  const foldOf = new Map<number, number>()
+  if (scheme !== 'none') {
+    const assigned = assignFolds(sharedTimes, scheme, folds)
+    sharedTimes.forEach((t, k) => {
+      foldOf.set(t, assigned[k])
+    })
   }
 
-  const pairs1 = buildPairs(maps.file1BaroMap, secondsForCalib)
-  const pairs2 = buildPairs(maps.file2BaroMap, secondsForCalib)
+  const residuals = (fn: (h: number, t: number) => number, pairs: ReturnType<typeof buildPairs>) =>
+    pairs.hRaw.map((h, k) => fn(h, pairs.times[k]) - pairs.hRef[k])
+
+  const validation: Array<InstrumentValidation> = maps.map((m, i) => {
+    const inSample = residualStats(residuals(calibrators[i].fn, calibrationPairs[i]))
+    if (scheme === 'none') return { inSample, outOfSample: null }
 
-  const calibrator1 = buildCalibrator(pairs1.hRaw, pairs1.hRef, options)
-  const calibrator2 = buildCalibrator(pairs2.hRaw, pairs2.hRef, options)
+    let heldOut: Array<number> = []
+    for (let fold = 0; fold < folds; fold++) {
+      const train = buildPairs(
+        m.baroMap,
+        timesForCalib.filter((t) => foldOf.get(t) !== fold),
+      )
+      if (train.times.length === 0) continue
+      const { fn } = buildCalibrator(train.hRaw, train.hRef, fitOptions, train.times, train.weights)
+      const test = buildPairs(
+        m.baroMap,
+        evaluationTimes.filter((t) => foldOf.get(t) === fold),
+      )
+      heldOut = heldOut.concat(residuals(fn, test))
+    }
+    return { inSample, outOfSample: residualStats(heldOut) }
+  })
 
-  const { baroAnalytics, gpsAnalytics } = calculateAnalytics(
-    sharedSeconds,
-    maps,
-    calibrator1.fn,
-    calibrator2.fn,
+  const calibrationFns = calibrators.map((c) => c.fn)
+  const { baroMatrix, gpsMatrix } = calculateAnalytics(evaluationTimes, maps, calibrationFns)
+
+  const phaseAnalytics = FLIGHT_PHASES.flatMap((phase) => {
+    const times = evaluationTimes.filter(inPhases(segments, [phase]))
+    if (times.length === 0) return []
+    return [
+      {
+        phase,
+        seconds: times.length / gridRate,
+        ...calculateAnalytics(times, maps, calibrationFns),
+      },
+    ]
+  })
+
+  // Files without baro have nothing to calibrate and do not count
+  const withBaro = calibrators.filter((_, i) => maps[i].baroMap.size > 0)
+
+  const instruments: Array<InstrumentCalibration> = calibrators.map((c, i) => ({
+    calibrateBaro: c.fn,
+    model: c.model,
+    slope: c.altitudeSlope,
+    offset: c.altitudeOffset,
+    pressureSlope: c.pressureSlope,
+    pressureOffsetPa: c.pressureOffset,
+    pressureQuadratic: c.pressureQuadratic,
+    altitudeSegments: c.altitudeSegments,
+    driftRatePaPerHour: c.driftRatePaPerHour,
+    driftCurve: c.driftCurve,
+    fitPoints: {
+      raw: calibrationPairs[i].hRaw,
+      reference: calibrationPairs[i].hRef,
+      weights: c.pointWeights,
+    },
+    pointsUsed: c.pointsUsed,
+  }))
+
+  return {
+    instruments,
+    pointsUsed: withBaro.length > 0 ? Math.min(...withBaro.map((c) => c.pointsUsed)) : 0,
+    gridRate,
+    atmosphere: {
+      seaLevelTemperature: t0,
+      isaDeviation: t0 - ISA_SEA_LEVEL_TEMPERATURE,
+      estimated: isaDeviationEstimate !== null,
+    },
+    lag,
+    validation: { folds, instruments: validation },
+    phases: { segments, analytics: phaseAnalytics },
+    altitudeBands: calculateAltitudeBands(
+      evaluationTimes,
+      refAlt,
+      maps,
+      calibrationFns,
+      options?.errorBandSize ?? DEFAULT_ERROR_BAND_SIZE,
+      gridRate,
+    ),
+    calibrationRange: spanOf(timesForCalib),
+    evaluationRange: spanOf(evaluationTimes),
+    baroMatrix,
+    gpsMatrix,
+  }
+}
+
+function varioStats(a: Map<number, number>, b: Map<number, number>): VarioAnalytics | null {
+  const differences: Array<number> = []
+  let n = 0
+  let sa = 0
+  let sb = 0
+  let saa = 0
+  let sbb = 0
+  let sab = 0
+  for (const [t, x] of a) {
+    const y = b.get(t)
+    if (y === undefined) continue
+    differences.push(x - y)
+    n++
+    sa += x
+    sb += y
+    saa += x * x
+    sbb += y * y
+    sab += x * y
+  }
+  if (n === 0) return null
+  const denom = Math.sqrt((saa - (sa * sa) / n) * (sbb - (sb * sb) / n))
+  return {
+    ...computeStats(differences),
+    rmsDifference: Math.sqrt(differences.reduce((acc, d) => acc + d * d, 0) / n),
+    correlation: denom > 0 ? (sab - (sa * sb) / n) / denom : 0,
+  }
+}
+
+// Vertical speed of every calibrated baro and GPS series, over the common range on the grid
+// the calibration used, with per-trace noise and pairwise agreement
+export function calculateVarioComparison(
+  files: Array<IGCFileWithMetadata>,
+  calibration: CalibrationInfo,
+  windowSeconds = DEFAULT_VARIO_WINDOW_SECONDS,
+): VarioComparison {
+  const timeRange = findCommonTimeRange(files)
+  const grid = timeRange ? buildTimeGrid(timeRange, calibration.gridRate) : []
+  const maps = createDataMaps(files, grid, baroLagShifts(calibration.lag))
+
+  const baroVario = maps.map((m, i) => {
+    const calibrate = calibration.instruments[i].calibrateBaro
+    const calibrated = new Map<number, number>()
+    for (const [t, h] of m.baroMap) calibrated.set(t, calibrate(h, t))
+    return verticalSpeed(calibrated, windowSeconds, calibration.gridRate)
+  })
+  const gpsVario = maps.map((m) => verticalSpeed(m.gpsMap, windowSeconds, calibration.gridRate))
+
+  const traces = (vario: Array<Map<number, number>>) =>
+    vario.map((v) => [...v].sort((a, b) => a[0] - b[0]))
+
+  return {
+    windowSeconds,
+    baroTraces: traces(baroVario),
+    gpsTraces: traces(gpsVario),
+    baroNoise: baroVario.map((v) => varioNoise(v, windowSeconds)),
+    gpsNoise: gpsVario.map((v) => varioNoise(v, windowSeconds)),
+    baroMatrix: buildMatrix(files.length, (i, j) => varioStats(baroVario[i], baroVario[j])),
+    gpsMatrix: buildMatrix(files.length, (i, j) => varioStats(gpsVario[i], gpsVario[j])),
+  }
+}
+
+// Noise floor of every raw baro and GPS series over the stretches where the mean baro
+// altitude is close to linear in time (on the ground, steady glides)
+export function calculateNoiseAnalysis(
+  files: Array<IGCFileWithMetadata>,
+  calibration: CalibrationInfo,
+): NoiseAnalysis {
+  const timeRange = findCommonTimeRange(files)
+  const grid = timeRange ? buildTimeGrid(timeRange, calibration.gridRate) : []
+  const maps = createDataMaps(files, grid, baroLagShifts(calibration.lag))
+  const sharedTimes = maps.length > 0 ? findSharedTimes(maps) : []
+
+  // Series a file does not have are null; the consensus falls back to GPS without any baro
+  const series = (map: Map<number, number>) =>
+    map.size > 0 ? sharedTimes.map((t) => map.get(t)!) : null
+  const baroSeries = maps.map((m) => series(m.baroMap))
+  const gpsSeries = maps.map((m) => series(m.gpsMap))
+  const present = baroSeries.some((v) => v) ? baroSeries : gpsSeries
+  const consensusSeries = present.filter((v): v is Array<number> => v !== null)
+  const consensus = sharedTimes.map(
+    (_, k) => consensusSeries.reduce((acc, v) => acc + v[k], 0) / consensusSeries.length,
   )
+  const segments = findStableSegments(sharedTimes, consensus, calibration.gridRate)
+
+  const seriesNoise = (values: Array<number> | null) => ({
+    residualRMS: values ? highPassResidualRMS(values, segments, calibration.gridRate) : null,
+    allan: values ? allanDeviation(values, segments, calibration.gridRate) : [],
+  })
 
   return {
-    calibrateBaro1: calibrator1.fn,
-    calibrateBaro2: calibrator2.fn,
-    baro1Slope: calibrator1.altitudeSlope,
-    baro2Slope: calibrator2.altitudeSlope,
-    baro1Offset: calibrator1.altitudeOffset,
-    baro2Offset: calibrator2.altitudeOffset,
-    baro1PressureSlope: calibrator1.pressureSlope,
-    baro2PressureSlope: calibrator2.pressureSlope,
-    baro1PressureOffsetPa: calibrator1.pressureOffset,
-    baro2PressureOffsetPa: calibrator2.pressureOffset,
-    pointsUsed: Math.min(calibrator1.pointsUsed, calibrator2.pointsUsed),
-    baroAnalytics,
-    gpsAnalytics,
-  }
-}
-
-export function findCommonTimeRange(
-  file1: IGCFileWithMetadata,
-  file2: IGCFileWithMetadata,
-): TimeRange | null {
-  const getTimestamps = (file: IGCFileWithMetadata) =>
-    file.fixes
-      .filter((fix) => fix.gpsAltitude !== null && fix.pressureAltitude !== null)
-      .map((fix) => fix.timestamp)
-
-  const file1Times = getTimestamps(file1)
-  const file2Times = getTimestamps(file2)
-
-  if (file1Times.length === 0 || file2Times.length === 0) {
+    segments: segments.map(({ start, end }) => ({
+      start: sharedTimes[start],
+      end: sharedTimes[end - 1],
+    })),
+    baro: baroSeries.map(seriesNoise),
+    gps: gpsSeries.map(seriesNoise),
+  }
+}
+
+export function findCommonTimeRange(files: Array<IGCFileWithMetadata>): TimeRange | null {
+  // Span of each file's fixes with an altitude, folded to stay clear of the argument stack
+  const spans = files.map((file) => {
+    let first = Number.POSITIVE_INFINITY
+    let last = Number.NEGATIVE_INFINITY
+    for (const fix of file.fixes) {
+      if (fix.gpsAltitude === null && fix.pressureAltitude === null) continue
+      first = Math.min(first, fix.timestamp)
+      last = Math.max(last, fix.timestamp)
+    }
+    return { first, last }
+  })
+
+  if (spans.length === 0 || spans.some((span) => span.first > span.last)) {
     return null
   }
 
-  const start = Math.max(Math.min(...file1Times), Math.min(...file2Times))
-  const end = Math.min(Math.max(...file1Times), Math.max(...file2Times))
+  const start = Math.max(...spans.map((span) => span.first))
+  const end = Math.min(...spans.map((span) => span.last))
 
   return start >= end ? null : { start, end }
 }
@@ -215,3 +686,73 @@ export function createTimeRangeFilter(timeRange: TimeRange | null) {
     return fix.timestamp >= timeRange.start && fix.timestamp <= timeRange.end
   }
 }
+
+// Point-wise a - b at a's timestamps, with b interpolated (never across a fix gap)
+export function differenceSeries(
+  a: Array<[number, number]>,
+  b: Array<[number, number]>,
+): Array<[number, number]> {
+  const bAt = resampleLinear(
+    b.map(([t, v]) => ({ t, v })),
+    a.map(([t]) => t),
+  )
+  return a.flatMap(([t, v]) => {
+    const other = bAt.get(t)
+    return other === undefined ? [] : [[t, v - other] as [number, number]]
+  })
+}
+
+export interface FirstFileDifference {
+  kind: 'baro' | 'gps'
+  index: number // file index, 1 or more
+  data: Array<[number, number]>
+}
+
+// Each other file's baro and GPS minus File 1's, from altitude series named like 'baro2'. A
+// pair is skipped when either file lacks that altitude kind.
+export function differencesToFirstFile(
+  series: Map<string, Array<[number, number]>>,
+  fileCount: number,
+): Array<FirstFileDifference> {
+  return (['baro', 'gps'] as const).flatMap((kind) => {
+    const first = series.get(`${kind}1`)
+    if (!first) return []
+    return Array.from({ length: fileCount - 1 }, (_, k) => k + 1).flatMap((index) => {
+      const data = series.get(`${kind}${index + 1}`)
+      return data ? [{ kind, index, data: differenceSeries(data, first) }] : []
+    })
+  })
+}
+
+export interface Histogram {
+  // Bin edges, one more than the bins
+  edges: Array<number>
+  // Counts per bin for each input series
+  counts: Array<Array<number>>
+}
+
+// Shared bins over the 1st–99th percentile of all values so a few spikes do not flatten the
+// histogram; values beyond that are counted in the edge bins.
+export function buildHistogram(series: Array<Array<number>>, binCount = 40): Histogram {
+  const sorted = series.flat().sort((a, b) => a - b)
+  if (sorted.length === 0) return { edges: [], counts: series.map(() => []) }
+
+  let lo = sorted[Math.floor((sorted.length - 1) * 0.01)]
+  let hi = sorted[Math.ceil((sorted.length - 1) * 0.99)]
+  if (hi - lo < 1e-6) {
+    lo -= 0.5
+    hi += 0.5
+  }
+  const width = (hi - lo) / binCount
+  const edges = Array.from({ length: binCount + 1 }, (_, k) => lo + k * width)
+
+  const counts = series.map((values) => {
+    const bins: Array<number> = Array(binCount).fill(0)
+    for (const v of values) {
+      const k = Math.min(binCount - 1, Math.max(0, Math.floor((v - lo) / width)))
+      bins[k]++
+    }
+    return bins
+  })
+  return { edges, counts }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { flightSamples, toIGC } from '../test/fixtures'
+import { applyTimeOffset, estimateClockOffset, estimateClockOffsets } from './clock-offset'
+import { parseIGCText } from './igc-parser'
+
+const samples = flightSamples(1800)
+const reference = parseIGCText(toIGC(samples), 'reference.igc')
+
+// The same flight logged by a clock running `seconds` ahead
+const aheadBy = (seconds: number) =>
+  parseIGCText(
+    toIGC(samples.map((sample) => ({ ...sample, timestamp: sample.timestamp + seconds * 1000 }))),
+    'ahead.igc',
+  )
+
+describe('estimateClockOffsets', () => {
+  it('returns the shift that lines the target up with the first file', () => {
+    const ahead = aheadBy(17)
+    const [first, second] = estimateClockOffsets([reference, ahead])
+    expect(first).toEqual({ offsetMs: 0, confidence: 1 })
+    expect(second.offsetMs).toBe(-17_000)
+    expect(second.confidence).toBeGreaterThan(0.99)
+
+    const aligned = applyTimeOffset(ahead, second.offsetMs)
+    expect(aligned.fixes.map((fix) => fix.timestamp)).toEqual(
+      reference.fixes.map((fix) => fix.timestamp),
+    )
+  })
+
+  it('finds a lagging clock on the altitude signal and from GPS', () => {
+    const behind = aheadBy(-42)
+    for (const options of [{ signal: 'altitude' }, { source: 'gps' }] as const) {
+      expect(estimateClockOffset(reference, behind, options).offsetMs).toBe(42_000)
+    }
+  })
+
+  it('searches only inside the window', () => {
+    const estimate = estimateClockOffset(reference, aheadBy(30), { maxOffsetSeconds: 10 })
+    expect(Math.abs(estimate.offsetMs)).toBeLessThanOrEqual(10_000)
+  })
+})
@@ -0,0 +1,162 @@
+// Clock-offset estimation between loggers by cross-correlating their altitude profiles.
+
+import type { IGCFileWithMetadata } from '../types'
+
+export type ClockOffsetSignal = 'vario' | 'altitude'
+
+// Baro gives the cleaner profile, but its response lag ends up in the offset; GPS altitude
+// keeps the clocks apart from the pressure filtering (needed when lag is compensated)
+export type ClockOffsetSource = 'baro' | 'gps'
+
+export interface ClockOffsetOptions {
+  signal?: ClockOffsetSignal
+  source?: ClockOffsetSource
+  maxOffsetSeconds?: number
+}
+
+export interface ClockOffsetEstimate {
+  // Milliseconds to add to the target file's timestamps to line it up with the reference
+  offsetMs: number
+  // Peak Pearson correlation, clamped to 0..1
+  confidence: number
+}
+
+// Estimates below this confidence are reported but not applied automatically
+export const MIN_CLOCK_OFFSET_CONFIDENCE = 0.5
+
+// 1 Hz altitude profile keyed by whole second; either source falls back to the other when the
+// file has none of it
+function altitudeProfile(
+  file: IGCFileWithMetadata,
+  source: ClockOffsetSource = 'baro',
+): Map<number, number> {
+  const hasBaro = file.fixes.some((fix) => fix.pressureAltitude !== null)
+  const hasGPS = file.fixes.some((fix) => fix.gpsAltitude !== null)
+  const useBaro = source === 'baro' ? hasBaro : !hasGPS
+  const profile = new Map<number, number>()
+  for (const fix of file.fixes) {
+    const altitude = useBaro ? fix.pressureAltitude : fix.gpsAltitude
+    if (altitude !== null) {
+      profile.set(Math.floor(fix.timestamp / 1000), altitude)
+    }
+  }
+  return profile
+}
+
+// Central-difference vertical speed (m/s) over ±halfWindow seconds
+function varioProfile(profile: Map<number, number>, halfWindow = 2): Map<number, number> {
+  const vario = new Map<number, number>()
+  for (const [second] of profile) {
+    const before = profile.get(second - halfWindow)
+    const after = profile.get(second + halfWindow)
+    if (before !== undefined && after !== undefined) {
+      vario.set(second, (after - before) / (2 * halfWindow))
+    }
+  }
+  return vario
+}
+
+// Pearson correlation of a[t] against b[t + lag] over the seconds both have
+function correlationAtLag(a: Map<number, number>, b: Map<number, number>, lag: number): number {
+  let n = 0
+  let sa = 0
+  let sb = 0
+  let saa = 0
+  let sbb = 0
+  let sab = 0
+  for (const [t, x] of a) {
+    const y = b.get(t + lag)
+    if (y === undefined) continue
+    n++
+    sa += x
+    sb += y
+    saa += x * x
+    sbb += y * y
+    sab += x * y
+  }
+  if (n < 30) return Number.NaN
+  const cov = sab - (sa * sb) / n
+  const va = saa - (sa * sa) / n
+  const vb = sbb - (sb * sb) / n
+  const denom = Math.sqrt(va * vb)
+  return denom > 0 ? cov / denom : Number.NaN
+}
+
+// Finds the lag (in samples) that maximises the correlation of a[t] with b[t + lag],
+// refined to sub-sample precision with a parabola through the peak and its neighbours.
+export function findBestLag(
+  a: Map<number, number>,
+  b: Map<number, number>,
+  maxLag: number,
+): { lag: number; correlation: number } | null {
+  const correlations = new Map<number, number>()
+  let bestLag = 0
+  let best = Number.NEGATIVE_INFINITY
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const c = correlationAtLag(a, b, lag)
+    if (!Number.isFinite(c)) continue
+    correlations.set(lag, c)
+    if (c > best) {
+      best = c
+      bestLag = lag
+    }
+  }
+  if (best === Number.NEGATIVE_INFINITY) return null
+
+  const prev = correlations.get(bestLag - 1)
+  const next = correlations.get(bestLag + 1)
+  let refined = bestLag
+  if (prev !== undefined && next !== undefined) {
+    const curvature = prev - 2 * best + next
+    if (curvature < 0) {
+      refined = bestLag + (0.5 * (prev - next)) / curvature
+    }
+  }
+  return { lag: refined, correlation: best }
+}
+
+export function estimateClockOffset(
+  reference: IGCFileWithMetadata,
+  target: IGCFileWithMetadata,
+  options?: ClockOffsetOptions,
+): ClockOffsetEstimate {
+  const signal = options?.signal ?? 'vario'
+  const maxOffsetSeconds = options?.maxOffsetSeconds ?? 120
+
+  let refProfile = altitudeProfile(reference, options?.source)
+  let targetProfile = altitudeProfile(target, options?.source)
+  if (signal === 'vario') {
+    refProfile = varioProfile(refProfile)
+    targetProfile = varioProfile(targetProfile)
+  }
+
+  const result = findBestLag(refProfile, targetProfile, maxOffsetSeconds)
+  if (!result) {
+    return { offsetMs: 0, confidence: 0 }
+  }
+
+  // Target sample at t + lag matches reference at t, so the target clock runs `lag` ahead
+  return {
+    offsetMs: -Math.round(result.lag * 1000),
+    confidence: Math.min(Math.max(result.correlation, 0), 1),
+  }
+}
+
+// Returns a copy of the file with every fix shifted by offsetMs
+export function applyTimeOffset(file: IGCFileWithMetadata, offsetMs: number): IGCFileWithMetadata {
+  if (offsetMs === 0) return file
+  return {
+    ...file,
+    fixes: file.fixes.map((fix) => ({ ...fix, timestamp: fix.timestamp + offsetMs })),
+  }
+}
+
+// Estimates every file's offset relative to the first file (which gets offset 0)
+export function estimateClockOffsets(
+  files: Array<IGCFileWithMetadata>,
+  options?: ClockOffsetOptions,
+): Array<ClockOffsetEstimate> {
+  return files.map((file, i) =>
+    i === 0 ? { offsetMs: 0, confidence: 1 } : estimateClockOffset(files[0], file, options),
+  )
+}
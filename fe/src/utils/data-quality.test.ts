@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { flightAltitude, flightSamples, toIGC } from '../test/fixtures'
+import { assessDataQuality, excludedFixes } from './data-quality'
+import { parseIGCText } from './igc-parser'
+
+type Altitude = (h: number, s: number) => number
+
+// Half an hour of the fixture flight with the baro and GPS altitude passed through the given
+// functions and the fixes of `dropped` seconds left out
+function damaged(baro: Altitude, gps: Altitude = (h) => h, dropped = (_s: number) => false) {
+  const samples = flightSamples(1800, baro, gps).filter((_, s) => !dropped(s))
+  return assessDataQuality(parseIGCText(toIGC(samples), 'damaged.igc'))
+}
+
+const summary = (issues: ReturnType<typeof assessDataQuality>, kind: string) =>
+  issues
+    .filter((issue) => issue.kind === kind)
+    .map(({ series, start, end }) => [series, start, end])
+
+describe('assessDataQuality', () => {
+  it('finds nothing wrong with a clean flight', () => {
+    expect(damaged((h) => h)).toEqual([])
+  })
+
+  it('flags a single sample far off the running median as a spike', () => {
+    const issues = damaged((h, s) => (s === 300 ? h + 200 : h))
+    expect(issues).toHaveLength(1)
+    expect(summary(issues, 'spike')).toEqual([['baro', 300, 300]])
+    expect(issues[0].size).toBeGreaterThan(150)
+  })
+
+  it('flags a value held while the other series keeps moving', () => {
+    const issues = damaged(
+      (h) => h,
+      (h, s) => (s >= 600 && s < 660 ? flightAltitude(600) : h),
+    )
+    expect(summary(issues, 'stuck')).toEqual([['gps', 600, 659]])
+    expect(issues.find((issue) => issue.kind === 'stuck')!.size).toBe(59)
+  })
+
+  it('does not flag a logger sitting still', () => {
+    expect(
+      damaged(
+        () => 500,
+        () => 520,
+      ),
+    ).toEqual([])
+  })
+
+  it('flags a dropout in both series, sized in seconds', () => {
+    const issues = damaged(
+      (h) => h,
+      (h) => h,
+      (s) => s >= 1000 && s < 1010,
+    )
+    expect(summary(issues, 'gap')).toEqual([
+      ['baro', 999, 1000],
+      ['gps', 999, 1000],
+    ])
+    expect(issues.every((issue) => issue.size === 11)).toBe(true)
+  })
+
+  it('flags a step no glider can climb', () => {
+    const issues = damaged((h, s) => (s >= 1300 ? h + 300 : h))
+    expect(summary(issues, 'vertical-speed')).toEqual([['baro', 1299, 1300]])
+    expect(issues.find((issue) => issue.kind === 'vertical-speed')!.size).toBeGreaterThan(30)
+  })
+})
+
+describe('excludedFixes', () => {
+  it('drops spikes, repeats of a stuck value and the first sample after a jump', () => {
+    const issues = damaged(
+      (h, s) => (s === 300 ? h + 200 : s >= 1300 ? h + 300 : h),
+      (h, s) => (s >= 600 && s < 660 ? flightAltitude(600) : h),
+      (s) => s >= 1000 && s < 1010,
+    )
+    const baro = excludedFixes(issues, 'baro')
+    expect(baro.has(300)).toBe(true)
+    // Fix indices past the dropout are 10 lower than the seconds
+    expect(baro.has(1290)).toBe(true)
+    const gps = excludedFixes(issues, 'gps')
+    expect([...gps].filter((i) => i < 660)).toEqual(Array.from({ length: 59 }, (_, k) => 601 + k))
+  })
+})
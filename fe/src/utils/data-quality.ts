@@ -0,0 +1,191 @@
+// Data-quality pass over the raw baro and GPS altitude of a parsed file: spikes, stuck values,
+// gaps and impossible vertical speeds.
+
+import type { BRecord, IGCFileWithMetadata, QualityIssue, QualitySeries } from '../types'
+import { MAX_INTERPOLATION_GAP_MS } from './resampling'
+
+// Spikes are judged against the running median of ±this many samples
+const MEDIAN_HALF_WINDOW = 5
+
+// A spike strays at least this far from the running median (m), and this many robust
+// standard deviations of the series' own scatter around it
+const MIN_SPIKE_METERS = 25
+const SPIKE_SIGMAS = 8
+
+// Climb or sink rate of the median-filtered series nothing can reach (m/s)
+const MAX_VERTICAL_SPEED = 30
+
+// A value repeated this long (s) while the file's other series moves this much (m) is stuck
+const MIN_STUCK_SECONDS = 30
+const MIN_STUCK_MOTION = 20
+
+interface Samples {
+  indices: Array<number>
+  times: Array<number>
+  values: Array<number>
+}
+
+const altitudeOf = (fix: BRecord, series: QualitySeries) =>
+  series === 'baro' ? fix.pressureAltitude : fix.gpsAltitude
+
+function collectSamples(fixes: Array<BRecord>, series: QualitySeries): Samples {
+  const samples: Samples = { indices: [], times: [], values: [] }
+  fixes.forEach((fix, i) => {
+    const value = altitudeOf(fix, series)
+    if (value === null) return
+    samples.indices.push(i)
+    samples.times.push(fix.timestamp)
+    samples.values.push(value)
+  })
+  return samples
+}
+
+function median(values: Array<number>): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function runningMedian(values: Array<number>): Array<number> {
+  return values.map((_, k) =>
+    median(values.slice(Math.max(0, k - MEDIAN_HALF_WINDOW), k + MEDIAN_HALF_WINDOW + 1)),
+  )
+}
+
+// Groups consecutive sample positions into runs, as [first, last] positions
+function runs(positions: Array<number>): Array<[number, number]> {
+  const result: Array<[number, number]> = []
+  for (const k of positions) {
+    const last = result[result.length - 1]
+    if (last && last[1] === k - 1) last[1] = k
+    else result.push([k, k])
+  }
+  return result
+}
+
+function findSpikes(samples: Samples, medians: Array<number>, series: QualitySeries) {
+  const deviations = samples.values.map((v, k) => v - medians[k])
+  if (deviations.length === 0) return []
+  const center = median(deviations)
+  const sigma = 1.4826 * median(deviations.map((d) => Math.abs(d - center)))
+  const threshold = Math.max(MIN_SPIKE_METERS, SPIKE_SIGMAS * sigma)
+
+  const flagged = deviations.flatMap((d, k) => (Math.abs(d) > threshold ? [k] : []))
+  return runs(flagged).map(
+    ([first, last]): QualityIssue => ({
+      series,
+      kind: 'spike',
+      start: samples.indices[first],
+      end: samples.indices[last],
+      size: deviations
+        .slice(first, last + 1)
+        .reduce((m, d) => (Math.abs(d) > Math.abs(m) ? d : m), 0),
+    }),
+  )
+}
+
+// Steps between consecutive samples of the median-filtered series, so noise and spikes do
+// not count; gaps are reported on their own
+function findVerticalSpeedJumps(samples: Samples, medians: Array<number>, series: QualitySeries) {
+  const rates = new Map<number, number>()
+  for (let k = 1; k < medians.length; k++) {
+    const dt = samples.times[k] - samples.times[k - 1]
+    if (dt <= 0 || dt > MAX_INTERPOLATION_GAP_MS) continue
+    const rate = ((medians[k] - medians[k - 1]) * 1000) / dt
+    if (Math.abs(rate) > MAX_VERTICAL_SPEED) rates.set(k, rate)
+  }
+  return runs([...rates.keys()]).map(
+    ([first, last]): QualityIssue => ({
+      series,
+      kind: 'vertical-speed',
+      start: samples.indices[first - 1],
+      end: samples.indices[last],
+      size: [...rates]
+        .filter(([k]) => k >= first && k <= last)
+        .reduce((m, [, rate]) => (Math.abs(rate) > Math.abs(m) ? rate : m), 0),
+    }),
+  )
+}
+
+function findGaps(samples: Samples, series: QualitySeries): Array<QualityIssue> {
+  const gaps: Array<QualityIssue> = []
+  for (let k = 1; k < samples.times.length; k++) {
+    const dt = samples.times[k] - samples.times[k - 1]
+    if (dt > MAX_INTERPOLATION_GAP_MS) {
+      gaps.push({
+        series,
+        kind: 'gap',
+        start: samples.indices[k - 1],
+        end: samples.indices[k],
+        size: dt / 1000,
+      })
+    }
+  }
+  return gaps
+}
+
+// Runs of one repeated value while the other series of the same file keeps moving, so a
+// logger sitting on the ground is not flagged
+function findStuck(fixes: Array<BRecord>, samples: Samples, series: QualitySeries) {
+  const other: QualitySeries = series === 'baro' ? 'gps' : 'baro'
+  const stuck: Array<QualityIssue> = []
+  let first = 0
+  for (let k = 1; k <= samples.values.length; k++) {
+    const continues =
+      k < samples.values.length &&
+      samples.values[k] === samples.values[first] &&
+      samples.times[k] - samples.times[k - 1] <= MAX_INTERPOLATION_GAP_MS
+    if (continues) continue
+
+    const duration = (samples.times[k - 1] - samples.times[first]) / 1000
+    if (duration >= MIN_STUCK_SECONDS) {
+      let lo = Number.POSITIVE_INFINITY
+      let hi = Number.NEGATIVE_INFINITY
+      for (let i = samples.indices[first]; i <= samples.indices[k - 1]; i++) {
+        const value = altitudeOf(fixes[i], other)
+        if (value === null) continue
+        lo = Math.min(lo, value)
+        hi = Math.max(hi, value)
+      }
+      if (hi - lo >= MIN_STUCK_MOTION) {
+        stuck.push({
+          series,
+          kind: 'stuck',
+          start: samples.indices[first],
+          end: samples.indices[k - 1],
+          size: duration,
+        })
+      }
+    }
+    first = k
+  }
+  return stuck
+}
+
+// Every issue found in the file's baro and GPS altitude, in time order
+export function assessDataQuality(file: IGCFileWithMetadata): Array<QualityIssue> {
+  return (['baro', 'gps'] as const)
+    .flatMap((series) => {
+      const samples = collectSamples(file.fixes, series)
+      const medians = runningMedian(samples.values)
+      return [
+        ...findSpikes(samples, medians, series),
+        ...findStuck(file.fixes, samples, series),
+        ...findGaps(samples, series),
+        ...findVerticalSpeedJumps(samples, medians, series),
+      ]
+    })
+    .sort((a, b) => a.start - b.start)
+}
+
+// Fix indices whose value of `series` should be left out: spikes, every repeat of a stuck
+// value and the first sample after a jump. Gaps have nothing to drop.
+export function excludedFixes(issues: Array<QualityIssue>, series: QualitySeries): Set<number> {
+  const excluded = new Set<number>()
+  for (const issue of issues) {
+    if (issue.series !== series || issue.kind === 'gap') continue
+    const from =
+      issue.kind === 'stuck' ? issue.start + 1 : issue.kind === 'spike' ? issue.start : issue.end
+    for (let i = from; i <= issue.end; i++) excluded.add(i)
+  }
+  return excluded
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { flightAltitude } from '../test/fixtures'
+import {
+  downsampleForView,
+  lowerBound,
+  nearestPoint,
+  type TimePoint,
+  valueRange,
+} from './downsample'
+
+// Five hours at 1 Hz with two one-sample spikes
+const points = Array.from({ length: 18_000 }, (_, s): TimePoint => [s * 1000, flightAltitude(s)])
+points[4321][1] = 5000
+points[12_345][1] = -500
+
+const isSorted = (series: Array<TimePoint>) =>
+  series.every((point, k) => k === 0 || series[k - 1][0] < point[0])
+
+describe('time lookups', () => {
+  const few: Array<TimePoint> = [
+    [0, 1],
+    [10, 2],
+    [20, 3],
+  ]
+
+  it('finds the first point at or after a time', () => {
+    expect(lowerBound(few, -5)).toBe(0)
+    expect(lowerBound(few, 10)).toBe(1)
+    expect(lowerBound(few, 11)).toBe(2)
+    expect(lowerBound(few, 21)).toBe(3)
+  })
+
+  it('finds the nearest point, the earlier one on a tie', () => {
+    expect(nearestPoint(few, 14)).toEqual([10, 2])
+    expect(nearestPoint(few, 15)).toEqual([10, 2])
+    expect(nearestPoint(few, 16)).toEqual([20, 3])
+    expect(nearestPoint(few, 99)).toEqual([20, 3])
+    expect(nearestPoint([], 0)).toBeNull()
+  })
+
+  it('takes the value range inside a time window', () => {
+    expect(valueRange(few, 5, 20)).toEqual({ min: 2, max: 3 })
+    expect(valueRange(few, 30, 40)).toEqual({
+      min: Number.POSITIVE_INFINITY,
+      max: Number.NEGATIVE_INFINITY,
+    })
+  })
+})
+
+describe('downsampleForView', () => {
+  it('thins the whole series to about the target and keeps the spikes', () => {
+    const thinned = downsampleForView(points, null, 1000)
+    expect(thinned.length).toBeGreaterThan(900)
+    expect(thinned.length).toBeLessThanOrEqual(1002)
+    expect(isSorted(thinned)).toBe(true)
+    expect(thinned).toContain(points[4321])
+    expect(thinned).toContain(points[12_345])
+  })
+
+  it('keeps the detail inside the view', () => {
+    const view = { start: 600_000, end: 900_000 }
+    const thinned = downsampleForView(points, view, 1000)
+    const inside = thinned.filter(([t]) => t >= view.start && t <= view.end)
+    // The 301 samples of the view fit within the target, so all of them stay
+    expect(inside).toHaveLength(301)
+    expect(thinned.length).toBeLessThan(1400)
+    expect(isSorted(thinned)).toBe(true)
+    expect(thinned).toContain(points[12_345])
+  })
+
+  it('returns short series as they are', () => {
+    const short = points.slice(0, 100)
+    expect(downsampleForView(short, null, 1000)).toBe(short)
+  })
+})
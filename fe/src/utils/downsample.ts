@@ -0,0 +1,100 @@
+// Chart-side thinning of long time series: min-max buckets that keep every spike, and binary
+// search over time-sorted points for hover lookups.
+
+import type { TimeRange } from '../types'
+
+export type TimePoint = [number, number]
+
+// Index of the first point at or after t in time-sorted points (points.length if none)
+export function lowerBound(points: Array<TimePoint>, t: number): number {
+  let lo = 0
+  let hi = points.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (points[mid][0] < t) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+// Point closest in time to t, null for no points
+export function nearestPoint(points: Array<TimePoint>, t: number): TimePoint | null {
+  if (points.length === 0) return null
+  const k = lowerBound(points, t)
+  if (k === 0) return points[0]
+  if (k === points.length) return points[k - 1]
+  return t - points[k - 1][0] <= points[k][0] - t ? points[k - 1] : points[k]
+}
+
+// Lowest and highest value of the points within [from, to]
+export function valueRange(
+  points: Array<TimePoint>,
+  from: number,
+  to: number,
+): { min: number; max: number } {
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  for (let k = lowerBound(points, from); k < points.length && points[k][0] <= to; k++) {
+    const value = points[k][1]
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return { min, max }
+}
+
+// Appends the lowest and highest point of each time bucket of points[start, end), in time
+// order, so spikes and steps survive however far the series is thinned
+function minMaxBuckets(
+  points: Array<TimePoint>,
+  start: number,
+  end: number,
+  bucketMs: number,
+  out: Array<TimePoint>,
+) {
+  let k = start
+  while (k < end) {
+    const bucketEnd = points[k][0] + bucketMs
+    let low = points[k]
+    let high = points[k]
+    let last = points[k]
+    for (k++; k < end && points[k][0] < bucketEnd; k++) {
+      last = points[k]
+      if (last[1] < low[1]) low = last
+      if (last[1] > high[1]) high = last
+    }
+    if (low === high) {
+      out.push(low)
+      if (last !== low) out.push(last)
+    } else if (low[0] < high[0]) {
+      out.push(low, high)
+    } else {
+      out.push(high, low)
+    }
+  }
+}
+
+// Thins time-sorted points to about `target` points across `view` (the whole series when
+// null) and as many again across the rest, so the visible part keeps its detail while
+// zooming out still shows the full outline
+export function downsampleForView(
+  points: Array<TimePoint>,
+  view: TimeRange | null,
+  target: number,
+): Array<TimePoint> {
+  if (points.length <= target) return points
+  const first = points[0][0]
+  const last = points[points.length - 1][0]
+  const from = view ? Math.max(view.start, first) : first
+  const to = view ? Math.min(view.end, last) : last
+  // Two points per bucket
+  const viewBucket = (2 * Math.max(to - from, 1)) / target
+  const outsideBucket = (2 * Math.max(last - first, 1)) / target
+
+  const startIndex = lowerBound(points, from)
+  const endIndex = lowerBound(points, to + 1)
+  const out: Array<TimePoint> = []
+  minMaxBuckets(points, 0, startIndex, outsideBucket, out)
+  minMaxBuckets(points, startIndex, endIndex, viewBucket, out)
+  minMaxBuckets(points, endIndex, points.length, outsideBucket, out)
+  return out
+}
@@ -0,0 +1,50 @@
+// Health of a loaded file: what the parser reported plus the spacing and validity of its fixes,
+// summed up as warnings when a comparison would rest on damaged data.
+
+import type { BRecord, FileHealth, FixRateStats, IGCFileWithMetadata } from '../types'
+import { MAX_INTERPOLATION_GAP_MS } from './resampling'
+
+export function fixRateStats(fixes: Array<BRecord>): FixRateStats {
+  const intervals: Array<number> = []
+  let outOfOrder = 0
+  for (let k = 1; k < fixes.length; k++) {
+    const dt = fixes[k].timestamp - fixes[k - 1].timestamp
+    if (dt <= 0) outOfOrder++
+    else intervals.push(dt / 1000)
+  }
+  const sorted = [...intervals].sort((a, b) => a - b)
+  return {
+    fixes: fixes.length,
+    medianInterval: sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : null,
+    minInterval: sorted.length > 0 ? sorted[0] : null,
+    maxInterval: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+    gaps: intervals.filter((dt) => dt * 1000 > MAX_INTERPOLATION_GAP_MS).length,
+    outOfOrder,
+  }
+}
+
+export function assessFileHealth(file: IGCFileWithMetadata): FileHealth {
+  const report = file.parseReport
+  const rate = fixRateStats(file.fixes)
+  const invalidFixes = file.fixes.filter((fix) => !fix.valid).length
+  const hasBaro = file.fixes.some((fix) => fix.pressureAltitude !== null)
+  const hasGPS = file.fixes.some((fix) => fix.gpsAltitude !== null)
+
+  const warnings: Array<string> = []
+  if (report.inferredDate) {
+    warnings.push(`No HFDTE date header, date ${report.inferredDate} inferred from the filename`)
+  }
+  if (report.malformedFixes > 0) warnings.push(`${report.malformedFixes} fixes could not be read`)
+  if (report.errors.length > report.malformedFixes) {
+    warnings.push(`${report.errors.length} parser errors`)
+  }
+  if (rate.outOfOrder > 0) warnings.push(`${rate.outOfOrder} fixes out of time order`)
+  if (rate.gaps > 0) {
+    warnings.push(`${rate.gaps} gaps longer than ${MAX_INTERPOLATION_GAP_MS / 1000} s`)
+  }
+  if (invalidFixes > 0) warnings.push(`${invalidFixes} fixes without a valid GPS fix`)
+  if (!hasBaro) warnings.push('No baro altitude')
+  if (!hasGPS) warnings.push('No GPS altitude')
+
+  return { rate, invalidFixes, hasBaro, hasGPS, warnings }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { flightSamples, toIGC } from '../test/fixtures'
+import type { BRecord } from '../types'
+import { calculateBaroCalibration } from './chart-calculations'
+import { fixAccuracy, resampleGPSWeights } from './fix-quality'
+import { parseIGCText } from './igc-parser'
+
+const fix = (overrides: Partial<BRecord>): BRecord => ({
+  timestamp: 0,
+  time: '',
+  latitude: 47,
+  longitude: 8,
+  valid: true,
+  pressureAltitude: 1000,
+  gpsAltitude: 1000,
+  extensions: {},
+  fixAccuracy: null,
+  enl: null,
+  ...overrides,
+})
+
+describe('fixAccuracy', () => {
+  it('prefers FXA, then scales the nominal accuracy by the satellites in use', () => {
+    expect(fixAccuracy(fix({ fixAccuracy: 12 }))).toBe(12)
+    expect(fixAccuracy(fix({ fixAccuracy: 1 }))).toBe(2)
+    expect(fixAccuracy(fix({ extensions: { SIU: '02' } }))).toBeCloseTo(10, 9)
+    expect(fixAccuracy(fix({}))).toBe(5)
+  })
+
+  it('has none for invalid fixes or fixes without GPS altitude', () => {
+    expect(fixAccuracy(fix({ valid: false, fixAccuracy: 3 }))).toBeNull()
+    expect(fixAccuracy(fix({ gpsAltitude: null }))).toBeNull()
+  })
+})
+
+describe('resampleGPSWeights', () => {
+  it('weights by inverse variance and skips grid points next to an invalid fix', () => {
+    const fixes = [0, 1, 2, 3].map((s) =>
+      fix({ timestamp: s * 1000, fixAccuracy: 4, valid: s !== 2 }),
+    )
+    const weights = resampleGPSWeights(fixes, [0, 1000, 1500, 2000, 2500, 3000])
+    expect(weights.get(0)).toBeCloseTo(1 / 16, 9)
+    expect(weights.get(1000)).toBeCloseTo(1 / 16, 9)
+    expect([...weights.keys()]).toEqual([0, 1000, 3000])
+  })
+})
+
+describe('weighted GPS reference', () => {
+  // The second logger's GPS is 30 m off and flags every fix as invalid (V)
+  const files = [
+    parseIGCText(toIGC(flightSamples(1800)), 'good.igc'),
+    parseIGCText(
+      toIGC(flightSamples(1800, undefined, (h) => h + 30)).replace(/A(\d{10})$/gm, 'V$1'),
+      'bad.igc',
+    ),
+  ]
+
+  it('leaves invalid fixes out of the reference', () => {
+    const offset = (referenceMode: 'avg-gps' | 'weighted-gps') =>
+      calculateBaroCalibration(files, { method: '1pt-offset-alt', referenceMode }).instruments[0]
+        .offset!
+    expect(offset('avg-gps')).toBeCloseTo(15, 0)
+    expect(offset('weighted-gps')).toBeCloseTo(0, 0)
+  })
+})
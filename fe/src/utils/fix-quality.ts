@@ -0,0 +1,49 @@
+// GPS fix quality from the B-record validity flag and the FXA (fix accuracy) and SIU
+// (satellites in use) extensions.
+
+import type { BRecord } from '../types'
+import { resampleLinear } from './resampling'
+
+// Accuracy (m) assumed for a valid fix that reports neither FXA nor SIU
+const NOMINAL_ACCURACY = 5
+
+// Satellite count the nominal accuracy corresponds to
+const NOMINAL_SATELLITES = 8
+
+// Smaller FXA values are not trusted to mean a better fix (m)
+const MIN_ACCURACY = 2
+
+// Estimated accuracy (m) of a fix's GPS altitude, null when the fix is invalid or has none.
+// Without FXA, the error is scaled from the nominal one by 1/√(satellites in use).
+export function fixAccuracy(fix: BRecord): number | null {
+  if (!fix.valid || fix.gpsAltitude === null) return null
+  if (fix.fixAccuracy !== null && fix.fixAccuracy > 0) {
+    return Math.max(fix.fixAccuracy, MIN_ACCURACY)
+  }
+  const satellites = Number.parseInt(fix.extensions.SIU ?? '', 10)
+  if (satellites > 0) return NOMINAL_ACCURACY * Math.sqrt(NOMINAL_SATELLITES / satellites)
+  return NOMINAL_ACCURACY
+}
+
+// Inverse-variance weight of each file's GPS altitude on the grid. Grid points next to an
+// invalid fix are left out, so interpolation never leans on one.
+export function resampleGPSWeights(
+  fixes: Array<BRecord>,
+  grid: Array<number>,
+): Map<number, number> {
+  const validity: Array<{ t: number; v: number }> = []
+  const variance: Array<{ t: number; v: number }> = []
+  for (const fix of fixes) {
+    if (fix.gpsAltitude === null) continue
+    const accuracy = fixAccuracy(fix)
+    validity.push({ t: fix.timestamp, v: accuracy === null ? 0 : 1 })
+    if (accuracy !== null) variance.push({ t: fix.timestamp, v: accuracy ** 2 })
+  }
+
+  const valid = resampleLinear(validity, grid)
+  const weights = new Map<number, number>()
+  for (const [t, v] of resampleLinear(variance, grid)) {
+    if ((valid.get(t) ?? 0) >= 1) weights.set(t, 1 / v)
+  }
+  return weights
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START, type FixtureSample, toIGC } from '../test/fixtures'
+import { detectFlightPhases, inPhases } from './flight-phases'
+import { parseIGCText } from './igc-parser'
+
+const minutes = (m: number) => FIXTURE_START + m * 60_000
+
+// Ten minutes on the ground, a 10-minute climb at 2.5 m/s, 10 minutes level, a 12.5-minute
+// descent at 2 m/s and ten more minutes on the ground, flying north at 20 m/s
+function flight(): Array<FixtureSample> {
+  let altitude = 500
+  let latitude = 47
+  return Array.from({ length: 3150 }, (_, s) => {
+    const airborne = s >= 600 && s < 2550
+    if (s >= 600 && s < 1200) altitude += 2.5
+    if (s >= 1800 && s < 2550) altitude -= 2
+    if (airborne) latitude += 20 / 111_195
+    return {
+      timestamp: FIXTURE_START + s * 1000,
+      latitude,
+      longitude: 8,
+      gpsAltitude: altitude,
+      pressureAltitude: altitude,
+    }
+  })
+}
+
+describe('detectFlightPhases', () => {
+  const segments = detectFlightPhases(parseIGCText(toIGC(flight()), 'phases.igc'))
+
+  it('splits the track into ground time, climb, cruise and descent', () => {
+    expect(segments.map(({ phase }) => phase)).toEqual([
+      'pre-flight',
+      'climb',
+      'cruise',
+      'descent',
+      'post-flight',
+    ])
+    const boundaries = segments.slice(1).map(({ start }) => (start - FIXTURE_START) / 60_000)
+    expect(boundaries[0]).toBeCloseTo(10, 0)
+    expect(boundaries[1]).toBeCloseTo(20, 0)
+    expect(boundaries[2]).toBeCloseTo(30, 0)
+    expect(boundaries[3]).toBeCloseTo(42.5, 0)
+  })
+
+  it('covers the track without holes', () => {
+    expect(segments[0].start).toBe(FIXTURE_START)
+    expect(segments[segments.length - 1].end).toBe(minutes(52.5) - 1000)
+    segments.slice(1).forEach((segment, k) => {
+      expect(segment.start).toBe(segments[k].end)
+    })
+  })
+
+  it('calls a track that never moves all pre-flight', () => {
+    const parked = flight().map((sample) => ({
+      ...sample,
+      latitude: 47,
+      gpsAltitude: 500,
+      pressureAltitude: 500,
+    }))
+    expect(detectFlightPhases(parseIGCText(toIGC(parked), 'parked.igc'))).toEqual([
+      { phase: 'pre-flight', start: FIXTURE_START, end: minutes(52.5) - 1000 },
+    ])
+  })
+})
+
+describe('inPhases', () => {
+  it('selects the times inside the chosen phases', () => {
+    const segments = detectFlightPhases(parseIGCText(toIGC(flight()), 'phases.igc'))
+    const climbing = inPhases(segments, ['climb'])
+    expect(climbing(minutes(15))).toBe(true)
+    expect(climbing(minutes(25))).toBe(false)
+    expect(climbing(minutes(5))).toBe(false)
+    expect(inPhases(segments, [])(minutes(15))).toBe(false)
+  })
+})
@@ -0,0 +1,150 @@
+// Flight-phase segmentation of a track: ground time before takeoff and after landing, and
+// climb, cruise and descent in between.
+
+import type { FlightPhase, IGCFileWithMetadata, PhaseSegment } from '../types'
+import { slidingWindow } from './vario'
+
+export const FLIGHT_PHASES: Array<FlightPhase> = [
+  'pre-flight',
+  'climb',
+  'cruise',
+  'descent',
+  'post-flight',
+]
+
+export const AIRBORNE_PHASES: Array<FlightPhase> = ['climb', 'cruise', 'descent']
+
+export const PHASE_LABELS: Record<FlightPhase, string> = {
+  'pre-flight': 'Pre-flight',
+  climb: 'Climb',
+  cruise: 'Cruise',
+  descent: 'Descent',
+  'post-flight': 'Post-flight',
+}
+
+// Half-width of the window that judges whether the aircraft is moving (s)
+const MOTION_HALF_WINDOW_SECONDS = 15
+
+// Moving means faster than this over the ground (m/s) or vertically (m/s)
+const MIN_AIRBORNE_GROUND_SPEED = 5
+const MIN_AIRBORNE_VERTICAL_SPEED = 1.5
+
+// Only motion lasting this long counts as flight, so walking or a car ride does not (s)
+const MIN_AIRBORNE_SECONDS = 60
+
+// Half-width of the window of the vertical speed that separates climb, cruise and descent (s)
+const PHASE_HALF_WINDOW_SECONDS = 30
+
+// Climb above, descent below this vertical speed (m/s); cruise in between
+const PHASE_VERTICAL_SPEED = 1
+
+// Shorter phases are merged into the one before them (s)
+const MIN_PHASE_SECONDS = 60
+
+const EARTH_RADIUS = 6_371_000
+
+function distance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = Math.PI / 180
+  const dLat = (lat2 - lat1) * rad
+  const dLon = (lon2 - lon1) * rad
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+// Merges segments shorter than MIN_PHASE_SECONDS into their predecessor (a short first one
+// takes its successor's phase), joining neighbours of the same phase
+function mergeShortSegments(segments: Array<PhaseSegment>): Array<PhaseSegment> {
+  const isShort = (s: PhaseSegment) => s.end - s.start < MIN_PHASE_SECONDS * 1000
+  const merged: Array<PhaseSegment> = []
+  for (const segment of segments) {
+    const last = merged[merged.length - 1]
+    if (!last) {
+      merged.push({ ...segment })
+    } else if (last.phase === segment.phase || isShort(segment)) {
+      last.end = segment.end
+    } else if (merged.length === 1 && isShort(last)) {
+      merged[0] = { ...segment, start: last.start }
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+  return merged
+}
+
+// Phases of the track, contiguous from its first to its last fix. Altitude is the pressure
+// altitude where the file has it, else GPS; a track that never flies is all pre-flight.
+export function detectFlightPhases(file: IGCFileWithMetadata): Array<PhaseSegment> {
+  const fixes = file.fixes.filter((fix) => (fix.pressureAltitude ?? fix.gpsAltitude) !== null)
+  if (fixes.length < 2) return []
+  const times = fixes.map((fix) => fix.timestamp)
+  const altitudes = fixes.map((fix) => (fix.pressureAltitude ?? fix.gpsAltitude)!)
+  const first = times[0]
+  const last = times[times.length - 1]
+
+  // Takeoff and landing bound the first and last sustained stretch of motion
+  const moving: Array<boolean> = []
+  slidingWindow(times, MOTION_HALF_WINDOW_SECONDS * 1000, (_, lo, hi) => {
+    const dt = (times[hi - 1] - times[lo]) / 1000
+    if (dt <= 0) {
+      moving.push(false)
+      return
+    }
+    const a = fixes[lo]
+    const b = fixes[hi - 1]
+    const groundSpeed = distance(a.latitude, a.longitude, b.latitude, b.longitude) / dt
+    const verticalSpeed = Math.abs(altitudes[hi - 1] - altitudes[lo]) / dt
+    moving.push(
+      groundSpeed > MIN_AIRBORNE_GROUND_SPEED || verticalSpeed > MIN_AIRBORNE_VERTICAL_SPEED,
+    )
+  })
+  let takeoff: number | null = null
+  let landing: number | null = null
+  let runStart = -1
+  for (let k = 0; k <= moving.length; k++) {
+    if (k < moving.length && moving[k]) {
+      if (runStart < 0) runStart = k
+      continue
+    }
+    if (runStart >= 0 && times[k - 1] - times[runStart] >= MIN_AIRBORNE_SECONDS * 1000) {
+      takeoff ??= times[runStart]
+      landing = times[k - 1]
+    }
+    runStart = -1
+  }
+  if (takeoff === null || landing === null) {
+    return [{ phase: 'pre-flight', start: first, end: last }]
+  }
+
+  // Climb, cruise and descent from the smoothed vertical speed while airborne
+  const airborne: Array<PhaseSegment> = []
+  slidingWindow(times, PHASE_HALF_WINDOW_SECONDS * 1000, (i, lo, hi) => {
+    if (times[i] < takeoff || times[i] >= landing) return
+    const dt = (times[hi - 1] - times[lo]) / 1000
+    const rate = dt > 0 ? (altitudes[hi - 1] - altitudes[lo]) / dt : 0
+    const phase: FlightPhase =
+      rate > PHASE_VERTICAL_SPEED ? 'climb' : rate < -PHASE_VERTICAL_SPEED ? 'descent' : 'cruise'
+    const previous = airborne[airborne.length - 1]
+    if (previous?.phase === phase) previous.end = times[i + 1] ?? landing
+    else airborne.push({ phase, start: times[i], end: times[i + 1] ?? landing })
+  })
+  if (airborne.length > 0) {
+    airborne[0].start = takeoff
+    airborne[airborne.length - 1].end = landing
+  }
+
+  return [
+    ...(takeoff > first ? [{ phase: 'pre-flight' as const, start: first, end: takeoff }] : []),
+    ...mergeShortSegments(airborne),
+    ...(landing < last ? [{ phase: 'post-flight' as const, start: landing, end: last }] : []),
+  ]
+}
+
+// Whether `t` falls in one of the given phases' segments
+export function inPhases(
+  segments: Array<PhaseSegment>,
+  phases: Array<FlightPhase>,
+): (t: number) => boolean {
+  const selected = segments.filter((s) => phases.includes(s.phase))
+  return (t) => selected.some((s) => t >= s.start && t < s.end)
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { flightSamples, toIGC } from '../test/fixtures'
+import { convertGPSDatum, detectGPSDatum, geoidHeight } from './geoid'
+import { parseIGCText } from './igc-parser'
+
+const file = parseIGCText(toIGC(flightSamples(60)), 'flight.igc')
+
+describe('geoidHeight', () => {
+  it('reads the EGM96 grid', () => {
+    expect(geoidHeight(0, 0)).toBeCloseTo(17.16, 2)
+    expect(geoidHeight(47, 8)).toBeCloseTo(48.39, 2)
+  })
+})
+
+describe('convertGPSDatum', () => {
+  it('subtracts the geoid height from ellipsoid heights and adds it back', () => {
+    const toGeoid = convertGPSDatum(file, 'ellipsoid', 'geoid')
+    const fix = file.fixes[30]
+    const N = geoidHeight(fix.latitude, fix.longitude)
+    expect(N).toBeGreaterThan(40)
+    expect(toGeoid.fixes[30].gpsAltitude).toBeCloseTo(fix.gpsAltitude! - N, 9)
+    // Pressure altitude has no datum to convert
+    expect(toGeoid.fixes[30].pressureAltitude).toBe(fix.pressureAltitude)
+
+    const back = convertGPSDatum(toGeoid, 'geoid', 'ellipsoid')
+    back.fixes.forEach((converted, k) => {
+      expect(converted.gpsAltitude).toBeCloseTo(file.fixes[k].gpsAltitude!, 9)
+    })
+  })
+
+  it('returns the same file when the datums match', () => {
+    expect(convertGPSDatum(file, 'geoid', 'geoid')).toBe(file)
+  })
+})
+
+describe('detectGPSDatum', () => {
+  it('reads HFALG and HFGPS headers', () => {
+    expect(detectGPSDatum('AXXX\nHFALGALTGPS:GEO\n')).toBe('geoid')
+    expect(detectGPSDatum('AXXX\nHFALGALTGPS:ELL\n')).toBe('ellipsoid')
+    expect(detectGPSDatum('AXXX\nHFGPSRECEIVER:u-blox\n')).toBeNull()
+    expect(file.gpsDatum).toBeNull()
+  })
+})
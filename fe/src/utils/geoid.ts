@@ -0,0 +1,53 @@
+// GPS altitude datum: height above the WGS84 ellipsoid or above the EGM96 geoid (MSL), and
+// conversion between them with the bundled EGM96 grid.
+
+import { meanSeaLevel } from 'egm96-universal'
+import type { GPSDatum, IGCFileWithMetadata } from '../types'
+
+// Datum every GPS series is converted to. Pressure altitude and QNH refer to sea level, so
+// geoid heights compare with them directly.
+export const COMMON_GPS_DATUM: GPSDatum = 'geoid'
+
+// Assumed when the header does not say; most loggers write MSL heights
+export const DEFAULT_GPS_DATUM: GPSDatum = 'geoid'
+
+export const GPS_DATUM_LABELS: Record<GPSDatum, string> = {
+  geoid: 'Geoid (MSL)',
+  ellipsoid: 'WGS84 ellipsoid',
+}
+
+// Datum declared by an HFALG (e.g. "HFALGALTGPS:GEO") or HFGPS header line, null if none does
+export function detectGPSDatum(text: string): GPSDatum | null {
+  for (const match of text.matchAll(/^H[FOP](?:ALG|GPS)(.*)$/gm)) {
+    const value = match[1].toUpperCase()
+    if (/\b(ELL|ELLIPSOID)\b/.test(value)) return 'ellipsoid'
+    if (/\b(GEO|GEOID|MSL)\b/.test(value)) return 'geoid'
+  }
+  return null
+}
+
+// Geoid height above the ellipsoid at a position (m)
+export function geoidHeight(latitude: number, longitude: number): number {
+  return meanSeaLevel(latitude, longitude)
+}
+
+// Returns a copy of the file with its GPS altitude converted from one datum to another
+export function convertGPSDatum(
+  file: IGCFileWithMetadata,
+  from: GPSDatum,
+  to: GPSDatum,
+): IGCFileWithMetadata {
+  if (from === to) return file
+  const sign = to === 'geoid' ? -1 : 1
+  return {
+    ...file,
+    fixes: file.fixes.map((fix) =>
+      fix.gpsAltitude === null
+        ? fix
+        : {
+            ...fix,
+            gpsAltitude: fix.gpsAltitude + sign * geoidHeight(fix.latitude, fix.longitude),
+          },
+    ),
+  }
+}
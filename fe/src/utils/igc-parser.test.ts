@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { flightSamples, toIGC } from '../test/fixtures'
+import { assessFileHealth, fixRateStats } from './file-health'
+import { dateFromFilename, parseIGCText } from './igc-parser'
+
+const samples = flightSamples(120)
+
+describe('parseIGCText', () => {
+  it('reads B records with whole-metre altitudes', () => {
+    const file = parseIGCText(toIGC(samples), 'flight.igc')
+    expect(file.fixes).toHaveLength(120)
+    expect(file.date).toBe('2025-07-15')
+    expect(file.fixes[7].timestamp).toBe(samples[7].timestamp)
+    expect(file.fixes[7].pressureAltitude).toBe(Math.round(samples[7].pressureAltitude!))
+    expect(file.parseReport.inferredDate).toBeNull()
+    expect(assessFileHealth(file).warnings).toEqual([])
+  })
+
+  it('counts malformed B records', () => {
+    const text = toIGC(samples).replace(/^B(\d{6})\d{7}N/m, 'B$1XXXXXXXN')
+    const file = parseIGCText(text, 'flight.igc')
+    expect(file.parseReport.malformedFixes).toBe(1)
+    expect(file.fixes).toHaveLength(119)
+    expect(assessFileHealth(file).warnings).toContain('1 fixes could not be read')
+  })
+
+  it('lists the extensions the I record declares', () => {
+    const text = toIGC(samples).replace(/^HFDTE/m, 'I023638FXA3940SIU\nHFDTE')
+    expect(parseIGCText(text, 'flight.igc').parseReport.extensions).toEqual(['FXA', 'SIU'])
+  })
+
+  it('reports a date inferred from the filename without HFDTE', () => {
+    const file = parseIGCText(toIGC(samples, { date: false }), '2025-07-15-XCT-ABC-01.igc')
+    expect(file.parseReport.inferredDate).toBe('2025-07-15')
+    expect(file.fixes[0].timestamp).toBe(samples[0].timestamp)
+    expect(assessFileHealth(file).warnings).toContain(
+      'No HFDTE date header, date 2025-07-15 inferred from the filename',
+    )
+  })
+
+  it('refuses a file without HFDTE and without a valid filename date', () => {
+    const text = toIGC(samples, { date: false })
+    expect(() => parseIGCText(text, 'flight.igc')).toThrow(/no HFDTE/)
+    expect(() => parseIGCText(text, '2025-02-30-XCT.igc')).toThrow(/no HFDTE/)
+  })
+})
+
+describe('dateFromFilename', () => {
+  it('accepts only calendar dates at the start', () => {
+    expect(dateFromFilename('2024-02-29-XCT-ABC-01.igc')).toBe('2024-02-29')
+    expect(dateFromFilename('2025-02-29-XCT.igc')).toBeNull()
+    expect(dateFromFilename('2025-13-01.igc')).toBeNull()
+    expect(dateFromFilename('flight-2025-07-15.igc')).toBeNull()
+  })
+})
+
+describe('fixRateStats', () => {
+  it('measures the spacing of the fixes and counts gaps', () => {
+    const file = parseIGCText(toIGC(samples.filter((_, s) => s < 50 || s >= 60)), 'flight.igc')
+    const rate = fixRateStats(file.fixes)
+    expect(rate.fixes).toBe(110)
+    expect(rate.medianInterval).toBe(1)
+    expect(rate.maxInterval).toBe(11)
+    expect(rate.gaps).toBe(1)
+    expect(rate.outOfOrder).toBe(0)
+    expect(assessFileHealth(file).warnings).toEqual(['1 gaps longer than 5 s'])
+  })
+})
@@ -1,18 +1,61 @@
 import IGCParser from 'igc-parser'
 import type { IGCFileWithMetadata } from '../types'
+import { detectGPSDatum } from './geoid'
 
-export async function parseIGCFile(file: File): Promise<IGCFileWithMetadata> {
-  const text = await file.text()
-  const parsed = IGCParser.parse(text, { lenient: true })
+// Long IGC filenames start with the flight date, e.g. 2025-07-15-XCT-ABC-01.igc
+const FILENAME_DATE = /^(\d{4})-(\d{2})-(\d{2})/
+
+// Flight date (YYYY-MM-DD) at the start of a long IGC filename, null when there is none or
+// it is no calendar date
+export function dateFromFilename(filename: string): string | null {
+  const match = FILENAME_DATE.exec(filename)
+  if (!match) return null
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date ? null : date
+}
+
+// The parser refuses a file without HFDTE even when lenient, as it needs a date to timestamp
+// the fixes. It is handed the inferred date after the A record; the parse report names it
+// as inferred, so it is never shown as a header of the file.
+function withDate(text: string, date: string): string {
+  const [year, month, day] = date.split('-')
+  const lines = text.split('\n')
+  return [lines[0], `HFDTE${day}${month}${year.slice(2)}`, ...lines.slice(1)].join('\n')
+}
+
+// Codes of the B-record extensions the I record declares, e.g. I013638FXA gives ['FXA']
+function declaredExtensions(text: string): Array<string> {
+  const match = /^I(\d{2})(\S*)/m.exec(text)
+  if (!match) return []
+  const count = Number.parseInt(match[1], 10)
+  return Array.from({ length: count }, (_, k) => match[2].slice(k * 7 + 4, k * 7 + 7)).filter(
+    (code) => code.length === 3,
+  )
+}
+
+export function parseIGCText(text: string, filename: string): IGCFileWithMetadata {
+  let inferredDate: string | null = null
+  if (!/^HFDTE/m.test(text)) {
+    inferredDate = dateFromFilename(filename)
+    if (!inferredDate) {
+      throw new Error(`${filename}: no HFDTE date header and no date in the filename`)
+    }
+  }
+  const parsed = IGCParser.parse(inferredDate ? withDate(text, inferredDate) : text, {
+    lenient: true,
+  })
+  const bRecords = text.match(/^B/gm)?.length ?? 0
   return {
     ...parsed,
-    filename: file.name
+    filename,
+    gpsDatum: detectGPSDatum(text),
+    parseReport: {
+      format: 'IGC',
+      errors: parsed.errors.map((error) => error.message),
+      malformedFixes: Math.max(0, bRecords - parsed.fixes.length),
+      inferredDate,
+      extensions: declaredExtensions(text),
+    },
   }
 }
-
-export function sortIGCFiles(files: File[]): File[] {
-  return files
-    .filter(f => f.name.toLowerCase().endsWith('.igc'))
-    .sort((a, b) => a.name.localeCompare(b.name))
-    .slice(0, 2)
-}
\ No newline at end of file
@@ -0,0 +1,14 @@
+// Per-instrument colors, GPS and baro shades of one file kept visually paired.
+// The first two entries match the original file1/file2 colors.
+const INSTRUMENT_COLORS: Array<{ gps: string; baro: string }> = [
+  { gps: '#3b82f6', baro: '#ef4444' }, // blue / red
+  { gps: '#10b981', baro: '#f97316' }, // green / orange
+  { gps: '#8b5cf6', baro: '#ec4899' }, // violet / pink
+  { gps: '#06b6d4', baro: '#eab308' }, // cyan / yellow
+  { gps: '#6366f1', baro: '#a16207' }, // indigo / brown
+  { gps: '#14b8a6', baro: '#be123c' }, // teal / rose
+]
+
+export function getInstrumentColors(index: number): { gps: string; baro: string } {
+  return INSTRUMENT_COLORS[index % INSTRUMENT_COLORS.length]
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { allanDeviation, findStableSegments, highPassResidualRMS } from './noise'
+
+// Repeatable Gaussian noise of standard deviation sigma (Box-Muller on a linear congruential
+// generator)
+function gaussianNoise(count: number, sigma: number, seed = 1): Array<number> {
+  let state = seed
+  const uniform = () => {
+    state = (state * 1_664_525 + 1_013_904_223) % 2 ** 32
+    return (state + 1) / (2 ** 32 + 1)
+  }
+  return Array.from(
+    { length: count },
+    () => sigma * Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform()),
+  )
+}
+
+const seconds = (count: number) => Array.from({ length: count }, (_, k) => k * 1000)
+
+describe('findStableSegments', () => {
+  // 200 s on the ground, 200 s circling in thermals, 200 s in a steady glide
+  const noise = gaussianNoise(600, 0.3)
+  const altitude = noise.map((n, k) => {
+    if (k < 200) return 500 + n
+    if (k < 400) return 500 + 50 * Math.sin((2 * Math.PI * (k - 200)) / 30) + n
+    return 500 - (k - 400) + n
+  })
+
+  it('finds the ground and the glide but not the thermals', () => {
+    const segments = findStableSegments(seconds(600), altitude, 1)
+    expect(segments.length).toBeGreaterThanOrEqual(2)
+    for (const { start, end } of segments) {
+      expect(end - start).toBeGreaterThanOrEqual(60)
+      expect(end <= 215 || start >= 385).toBe(true)
+    }
+    const covered = (from: number, to: number) =>
+      segments.reduce((a, s) => a + Math.max(0, Math.min(s.end, to) - Math.max(s.start, from)), 0)
+    expect(covered(0, 200)).toBeGreaterThan(150)
+    expect(covered(400, 600)).toBeGreaterThan(150)
+  })
+
+  it('ends a run at a gap in the grid', () => {
+    const times = seconds(300).map((t, k) => (k < 150 ? t : t + 60_000))
+    const segments = findStableSegments(times, gaussianNoise(300, 0.3), 1)
+    expect(segments.every(({ start, end }) => end <= 150 || start >= 150)).toBe(true)
+  })
+})
+
+describe('white noise', () => {
+  const noise = gaussianNoise(3600, 0.5, 7)
+  const whole = [{ start: 0, end: noise.length }]
+
+  it('has a high-pass RMS close to its standard deviation', () => {
+    expect(highPassResidualRMS(noise, whole, 1)).toBeCloseTo(0.5, 1)
+    expect(highPassResidualRMS(noise, [], 1)).toBeNull()
+  })
+
+  it('averages down with the square root of tau in the Allan deviation', () => {
+    const allan = allanDeviation(noise, whole, 1)
+    const at = (tau: number) => allan.find((point) => point.tau === tau)!.deviation
+    expect(at(1)).toBeCloseTo(0.5, 1)
+    expect(at(10) / at(1)).toBeCloseTo(1 / Math.sqrt(10), 1)
+    // 100 s hold only one difference of 50 s blocks, too few for a point
+    const short = allanDeviation(noise.slice(0, 100), [{ start: 0, end: 100 }], 1)
+    expect(short.map((point) => point.tau)).toEqual([1, 2, 5, 10, 20])
+  })
+})
@@ -0,0 +1,178 @@
+// Sensor noise characterisation on stable stretches of the flight (on the ground, steady glides).
+
+import type { AllanPoint } from '../types'
+
+// Half-width of the local linear fit that judges stability and high-passes the series (s)
+const DETREND_HALF_WINDOW_SECONDS = 15
+
+// Consensus altitude may stray this far (RMS, m) from a linear fit, both locally and over a
+// whole segment, and still count as stable
+const MAX_STABLE_RESIDUAL = 1.5
+
+// Stable runs shorter than this are not used (s)
+const MIN_SEGMENT_SECONDS = 60
+
+// Averaging times of the Allan deviation (s)
+const ALLAN_TAUS = [1, 2, 5, 10, 20, 50, 100, 200, 500]
+
+// An Allan deviation point needs at least this many block differences
+const MIN_ALLAN_DIFFERENCES = 3
+
+// Index range [start, end) into the grid-ordered series
+export interface Segment {
+  start: number
+  end: number
+}
+
+// Residual of each sample from a linear fit over ±half samples around it, clipped at the ends.
+// Prefix sums keep it linear in the series length.
+function localLinearResiduals(values: Array<number>, half: number): Array<number> {
+  const n = values.length
+  const mean = values.reduce((a, v) => a + v, 0) / (n || 1)
+  const sy: Array<number> = [0]
+  const sky: Array<number> = [0]
+  for (let k = 0; k < n; k++) {
+    sy.push(sy[k] + (values[k] - mean))
+    sky.push(sky[k] + k * (values[k] - mean))
+  }
+  const sumK = (m: number) => (m * (m - 1)) / 2
+  const sumKK = (m: number) => ((m - 1) * m * (2 * m - 1)) / 6
+
+  return values.map((v, k) => {
+    const lo = Math.max(0, k - half)
+    const hi = Math.min(n, k + half + 1)
+    const count = hi - lo
+    const Sk = sumK(hi) - sumK(lo)
+    const Skk = sumKK(hi) - sumKK(lo)
+    const Sy = sy[hi] - sy[lo]
+    const Sky = sky[hi] - sky[lo]
+    const denom = count * Skk - Sk * Sk
+    const slope = denom > 0 ? (count * Sky - Sk * Sy) / denom : 0
+    const intercept = (Sy - slope * Sk) / count
+    return v - mean - (intercept + slope * k)
+  })
+}
+
+// Splits [start, end) at its worst residual until each piece is linear as a whole, so a slow
+// curve cannot pass as a long stable stretch. Pieces are kept in time order.
+function splitUntilLinear(
+  consensus: Array<number>,
+  start: number,
+  end: number,
+  minLength: number,
+  out: Array<Segment>,
+) {
+  const pending: Array<Segment> = [{ start, end }]
+  while (pending.length > 0) {
+    const piece = pending.pop()!
+    const length = piece.end - piece.start
+    if (length < minLength) continue
+    const residuals = localLinearResiduals(consensus.slice(piece.start, piece.end), length)
+    const rms = Math.sqrt(residuals.reduce((a, r) => a + r * r, 0) / residuals.length)
+    if (rms <= MAX_STABLE_RESIDUAL) {
+      out.push(piece)
+      continue
+    }
+    let worst = 0
+    residuals.forEach((r, k) => {
+      if (Math.abs(r) > Math.abs(residuals[worst])) worst = k
+    })
+    // Keep the split away from the ends so every step removes a real share of the range
+    const split = piece.start + Math.min(Math.max(worst, 1), length - 1)
+    pending.push({ start: split, end: piece.end }, { start: piece.start, end: split })
+  }
+}
+
+// Runs of the grid where the consensus altitude is close to linear in time, both locally and
+// over the whole run. `times` must be sorted; a gap longer than 1.5 grid steps ends a run.
+export function findStableSegments(
+  times: Array<number>,
+  consensus: Array<number>,
+  rateHz: number,
+): Array<Segment> {
+  const stepMs = 1000 / rateHz
+  const half = Math.max(1, Math.round(DETREND_HALF_WINDOW_SECONDS * rateHz))
+  const minLength = Math.round(MIN_SEGMENT_SECONDS * rateHz)
+  const segments: Array<Segment> = []
+
+  let runStart = 0
+  for (let k = 1; k <= times.length; k++) {
+    if (k < times.length && times[k] - times[k - 1] <= 1.5 * stepMs) continue
+
+    // Rolling RMS of the local-fit residuals within this contiguous run
+    const residuals = localLinearResiduals(consensus.slice(runStart, k), half)
+    const squares: Array<number> = [0]
+    for (const r of residuals) squares.push(squares[squares.length - 1] + r * r)
+    let stableStart = -1
+    for (let i = 0; i <= residuals.length; i++) {
+      let stable = false
+      if (i < residuals.length) {
+        const lo = Math.max(0, i - half)
+        const hi = Math.min(residuals.length, i + half + 1)
+        stable = Math.sqrt((squares[hi] - squares[lo]) / (hi - lo)) <= MAX_STABLE_RESIDUAL
+      }
+      if (stable && stableStart < 0) stableStart = i
+      if (!stable && stableStart >= 0) {
+        splitUntilLinear(consensus, runStart + stableStart, runStart + i, minLength, segments)
+        stableStart = -1
+      }
+    }
+    runStart = k
+  }
+  return segments
+}
+
+// RMS of the series around its local linear fit, pooled over the segments (m)
+export function highPassResidualRMS(
+  values: Array<number>,
+  segments: Array<Segment>,
+  rateHz: number,
+): number | null {
+  const half = Math.max(1, Math.round(DETREND_HALF_WINDOW_SECONDS * rateHz))
+  let sum = 0
+  let count = 0
+  for (const { start, end } of segments) {
+    for (const r of localLinearResiduals(values.slice(start, end), half)) {
+      sum += r * r
+      count++
+    }
+  }
+  return count > 0 ? Math.sqrt(sum / count) : null
+}
+
+// Non-overlapping Allan deviation of the series after removing each segment's linear trend,
+// pooled over the segments
+export function allanDeviation(
+  values: Array<number>,
+  segments: Array<Segment>,
+  rateHz: number,
+): Array<AllanPoint> {
+  const detrended = segments.map(({ start, end }) =>
+    localLinearResiduals(values.slice(start, end), end - start),
+  )
+
+  const points: Array<AllanPoint> = []
+  for (const tau of ALLAN_TAUS) {
+    const m = Math.round(tau * rateHz)
+    if (m < 1) continue
+    let sum = 0
+    let count = 0
+    for (const series of detrended) {
+      let previous: number | null = null
+      for (let b = 0; (b + 1) * m <= series.length; b++) {
+        let mean = 0
+        for (let k = b * m; k < (b + 1) * m; k++) mean += series[k]
+        mean /= m
+        if (previous !== null) {
+          sum += (mean - previous) ** 2
+          count++
+        }
+        previous = mean
+      }
+    }
+    if (count >= MIN_ALLAN_DIFFERENCES) {
+      points.push({ tau, deviation: Math.sqrt(sum / (2 * count)), count })
+    }
+  }
+  return points
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START } from '../test/fixtures'
+import { interpolateQNH, parseMeteostatCSV, qnhCorrectedAltitude, summarizeQNH } from './qnh'
+
+const HOUR = 3_600_000
+
+describe('parseMeteostatCSV', () => {
+  it('reads the exported CSV by its header and drops implausible rows', () => {
+    const text = [
+      'time,temp,dwpt,rhum,prcp,snow,wdir,wspd,wpgt,pres,tsun,coco',
+      '2025-07-15 11:00:00,21.0,12.1,57,0,,250,9,,1016.8,,2',
+      '2025-07-15 10:00:00,19.4,11.8,61,0,,240,7,,1017.2,,2',
+      '2025-07-15 12:00:00,22.3,12.0,52,0,,250,11,,,,2',
+      '2025-07-15 13:00:00,22.9,11.6,49,0,,260,12,,2016.0,,2',
+    ].join('\n')
+    const series = parseMeteostatCSV(text, 'station.csv')
+    expect(series.source).toBe('station.csv')
+    expect(series.samples).toEqual([
+      { timestamp: FIXTURE_START, qnh: 1017.2 },
+      { timestamp: FIXTURE_START + HOUR, qnh: 1016.8 },
+    ])
+  })
+
+  it('reads header-less bulk files by column position', () => {
+    const series = parseMeteostatCSV('2025-07-15,10,19.4,11.8,61,0,,240,7,,1017.2,,2', 'bulk.csv')
+    expect(series.samples).toEqual([{ timestamp: FIXTURE_START, qnh: 1017.2 }])
+  })
+
+  it('refuses files without pressure values', () => {
+    expect(() => parseMeteostatCSV('', 'x.csv')).toThrow(/empty/)
+    expect(() => parseMeteostatCSV('time,temp,pres\n2025-07-15 10:00,20,', 'x.csv')).toThrow(/pres/)
+  })
+})
+
+describe('interpolateQNH', () => {
+  const series = {
+    source: 'station',
+    samples: [
+      { timestamp: FIXTURE_START, qnh: 1010 },
+      { timestamp: FIXTURE_START + HOUR, qnh: 1014 },
+      { timestamp: FIXTURE_START + 2 * HOUR, qnh: 1012 },
+    ],
+  }
+
+  it('interpolates between records and holds the ends for an hour', () => {
+    expect(interpolateQNH(series, FIXTURE_START + HOUR / 4)).toBeCloseTo(1011, 9)
+    expect(interpolateQNH(series, FIXTURE_START + 1.5 * HOUR)).toBeCloseTo(1013, 9)
+    expect(interpolateQNH(series, FIXTURE_START - HOUR)).toBe(1010)
+    expect(interpolateQNH(series, FIXTURE_START - HOUR - 1)).toBeNull()
+    expect(interpolateQNH(series, FIXTURE_START + 3 * HOUR + 1)).toBeNull()
+  })
+
+  it('summarises the range with the records inside it', () => {
+    const summary = summarizeQNH(series, {
+      start: FIXTURE_START + HOUR / 2,
+      end: FIXTURE_START + 1.5 * HOUR,
+    })
+    expect(summary).toEqual({ start: 1012, end: 1013, min: 1012, max: 1014 })
+  })
+})
+
+describe('qnhCorrectedAltitude', () => {
+  it('is the pressure altitude at standard pressure and rises with a higher QNH', () => {
+    expect(qnhCorrectedAltitude(1000, 1013.25)).toBeCloseTo(1000, 6)
+    // Roughly 8 m per hPa near sea level
+    expect(qnhCorrectedAltitude(0, 1023.25)).toBeCloseTo(83, 0)
+  })
+})
@@ -0,0 +1,147 @@
+// QNH from weather-station pressure records (Meteostat hourly CSV and similar files).
+
+import type { TimeRange } from '../types'
+import { altitudeFromPressureISA, pressureFromAltitudeISA } from './baro-calibration'
+
+export interface PressureSample {
+  timestamp: number
+  // Sea-level pressure (hPa)
+  qnh: number
+}
+
+export interface QNHSeries {
+  source: string
+  samples: Array<PressureSample>
+}
+
+// Column layout of the header-less Meteostat bulk hourly files
+const METEOSTAT_BULK_COLUMNS = [
+  'date',
+  'hour',
+  'temp',
+  'dwpt',
+  'rhum',
+  'prcp',
+  'snow',
+  'wdir',
+  'wspd',
+  'wpgt',
+  'pres',
+  'tsun',
+  'coco',
+]
+
+// Plausible sea-level pressure range (hPa), anything else is treated as a bad row
+const MIN_QNH = 850
+const MAX_QNH = 1100
+
+// QNH is held at the nearest station value for this long past either end of the records
+const MAX_EXTRAPOLATION_MS = 60 * 60 * 1000
+
+function parseTimestamp(row: Record<string, string>): number | null {
+  let iso: string | null = null
+  if (row.time) {
+    iso = row.time.trim().replace(' ', 'T')
+  } else if (row.date && row.hour !== undefined) {
+    iso = `${row.date.trim()}T${row.hour.trim().padStart(2, '0')}:00:00`
+  } else if (row.year && row.month && row.day && row.hour !== undefined) {
+    const pad = (v: string) => v.trim().padStart(2, '0')
+    iso = `${row.year.trim()}-${pad(row.month)}-${pad(row.day)}T${pad(row.hour)}:00:00`
+  }
+  if (!iso) return null
+  // Meteostat times are UTC
+  const timestamp = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(iso) ? iso : `${iso}Z`)
+  return Number.isFinite(timestamp) ? timestamp : null
+}
+
+export function parseMeteostatCSV(text: string, source: string): QNHSeries {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+
+  if (lines.length === 0) {
+    throw new Error('Pressure file is empty')
+  }
+
+  const firstCells = lines[0].split(',').map((cell) => cell.trim().toLowerCase())
+  const hasHeader = firstCells.includes('pres')
+  const columns = hasHeader ? firstCells : METEOSTAT_BULK_COLUMNS
+  const dataLines = hasHeader ? lines.slice(1) : lines
+
+  const samples: Array<PressureSample> = []
+  for (const line of dataLines) {
+    const cells = line.split(',')
+    const row: Record<string, string> = {}
+    columns.forEach((column, i) => {
+      row[column] = cells[i] ?? ''
+    })
+
+    const timestamp = parseTimestamp(row)
+    const qnh = Number.parseFloat(row.pres)
+    if (timestamp === null || !Number.isFinite(qnh) || qnh < MIN_QNH || qnh > MAX_QNH) continue
+    samples.push({ timestamp, qnh })
+  }
+
+  if (samples.length === 0) {
+    throw new Error('No sea-level pressure (pres) values found in pressure file')
+  }
+
+  samples.sort((a, b) => a.timestamp - b.timestamp)
+  return { source, samples }
+}
+
+// Linear interpolation between station records, null too far outside their span
+export function interpolateQNH(series: QNHSeries, timestamp: number): number | null {
+  const { samples } = series
+  const first = samples[0]
+  const last = samples[samples.length - 1]
+
+  if (timestamp <= first.timestamp) {
+    return first.timestamp - timestamp <= MAX_EXTRAPOLATION_MS ? first.qnh : null
+  }
+  if (timestamp >= last.timestamp) {
+    return timestamp - last.timestamp <= MAX_EXTRAPOLATION_MS ? last.qnh : null
+  }
+
+  let lo = 0
+  let hi = samples.length - 1
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (samples[mid].timestamp <= timestamp) lo = mid
+    else hi = mid
+  }
+  const a = samples[lo]
+  const b = samples[hi]
+  const frac = (timestamp - a.timestamp) / (b.timestamp - a.timestamp)
+  return a.qnh + frac * (b.qnh - a.qnh)
+}
+
+// Converts a standard-atmosphere (QNE, 1013.25 hPa) pressure altitude to altitude above QNH
+export function qnhCorrectedAltitude(pressureAltitude: number, qnh: number): number {
+  return altitudeFromPressureISA(pressureFromAltitudeISA(pressureAltitude), qnh * 100)
+}
+
+export interface QNHSummary {
+  start: number
+  end: number
+  min: number
+  max: number
+}
+
+// QNH at the start and end of the range plus its extremes, null if not covered
+export function summarizeQNH(series: QNHSeries, range: TimeRange): QNHSummary | null {
+  const start = interpolateQNH(series, range.start)
+  const end = interpolateQNH(series, range.end)
+  if (start === null || end === null) return null
+
+  let min = Math.min(start, end)
+  let max = Math.max(start, end)
+  for (const sample of series.samples) {
+    if (sample.timestamp > range.start && sample.timestamp < range.end) {
+      min = Math.min(min, sample.qnh)
+      max = Math.max(max, sample.qnh)
+    }
+  }
+  return { start, end, min, max }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import type { IGCFileWithMetadata } from '../types'
+import { buildTimeGrid, estimateNativeRate, resampleLinear } from './resampling'
+
+describe('buildTimeGrid', () => {
+  it('aligns points to whole multiples of the step', () => {
+    expect(buildTimeGrid({ start: 1100, end: 2600 }, 2)).toEqual([1500, 2000, 2500])
+    expect(buildTimeGrid({ start: 0, end: 1000 }, 4)).toEqual([0, 250, 500, 750, 1000])
+  })
+})
+
+describe('estimateNativeRate', () => {
+  it('follows the fastest file and never drops below 1 Hz', () => {
+    // Only the fix times matter here, and IGC cannot store sub-second ones
+    const file = (intervalMs: number) =>
+      ({
+        fixes: Array.from({ length: 20 }, (_, k) => ({ timestamp: k * intervalMs })),
+      }) as unknown as IGCFileWithMetadata
+    expect(estimateNativeRate([file(1000), file(250)])).toBe(4)
+    expect(estimateNativeRate([file(2000)])).toBe(1)
+  })
+})
+
+describe('resampleLinear', () => {
+  it('interpolates between samples at sub-second grid points', () => {
+    const samples = [
+      { t: 0, v: 100 },
+      { t: 1000, v: 110 },
+      { t: 2000, v: 90 },
+    ]
+    const result = resampleLinear(samples, [0, 250, 1000, 1500, 2000])
+    expect([...result]).toEqual([
+      [0, 100],
+      [250, 102.5],
+      [1000, 110],
+      [1500, 100],
+      [2000, 90],
+    ])
+  })
+
+  it('averages duplicate timestamps and sorts the samples', () => {
+    const samples = [
+      { t: 1000, v: 20 },
+      { t: 0, v: 0 },
+      { t: 1000, v: 10 },
+    ]
+    expect(resampleLinear(samples, [500, 1000]).get(500)).toBe(7.5)
+  })
+
+  it('leaves out points outside the samples and inside long gaps', () => {
+    const samples = [
+      { t: 1000, v: 0 },
+      { t: 2000, v: 10 },
+      { t: 10_000, v: 90 },
+      { t: 11_000, v: 100 },
+    ]
+    const result = resampleLinear(samples, [0, 1500, 5000, 10_500, 12_000])
+    expect([...result.keys()]).toEqual([1500, 10_500])
+    expect(resampleLinear(samples, [5000], 10_000).get(5000)).toBe(40)
+  })
+
+  it('keeps grid points that fall on the first sample after a gap', () => {
+    const samples = [
+      { t: 0, v: 0 },
+      { t: 1000, v: 10 },
+      { t: 9000, v: 90 },
+      { t: 10_000, v: 100 },
+    ]
+    expect([...resampleLinear(samples, [1000, 5000, 9000, 10_000])]).toEqual([
+      [1000, 10],
+      [9000, 90],
+      [10_000, 100],
+    ])
+  })
+})
@@ -0,0 +1,106 @@
+// Resampling of fix series onto a common time grid using linear interpolation.
+
+import type { IGCFileWithMetadata, TimeRange } from '../types'
+
+// Grid rate in Hz, or 'native' to follow the fastest file's median fix interval
+export type GridRate = 'native' | number
+
+// Samples are never interpolated across a gap longer than this
+export const MAX_INTERPOLATION_GAP_MS = 5000
+
+// Highest rate the grid is allowed to use, guards against bogus sub-ms intervals
+const MAX_GRID_RATE_HZ = 20
+
+function medianInterval(timestamps: Array<number>): number | null {
+  const intervals: Array<number> = []
+  for (let i = 1; i < timestamps.length; i++) {
+    const dt = timestamps[i] - timestamps[i - 1]
+    if (dt > 0) intervals.push(dt)
+  }
+  if (intervals.length === 0) return null
+  intervals.sort((a, b) => a - b)
+  return intervals[Math.floor(intervals.length / 2)]
+}
+
+// Median fix rate (Hz) of the fastest file
+export function estimateNativeRate(files: Array<IGCFileWithMetadata>): number {
+  let fastest = 1
+  for (const file of files) {
+    const interval = medianInterval(file.fixes.map((fix) => fix.timestamp))
+    if (interval !== null) fastest = Math.max(fastest, 1000 / interval)
+  }
+  return Math.min(fastest, MAX_GRID_RATE_HZ)
+}
+
+export function resolveGridRate(gridRate: GridRate, files: Array<IGCFileWithMetadata>): number {
+  const rate = gridRate === 'native' ? estimateNativeRate(files) : gridRate
+  return Number.isFinite(rate) && rate > 0 ? Math.min(rate, MAX_GRID_RATE_HZ) : 1
+}
+
+// Grid timestamps (ms) aligned to whole multiples of the step
+export function buildTimeGrid(range: TimeRange, rateHz: number): Array<number> {
+  const step = 1000 / rateHz
+  const grid: Array<number> = []
+  const first = Math.ceil(range.start / step)
+  const last = Math.floor(range.end / step)
+  for (let k = first; k <= last; k++) {
+    grid.push(Math.round(k * step))
+  }
+  return grid
+}
+
+// Sorted (timestamp, value) samples with duplicate timestamps averaged
+function collapseSamples(samples: Array<{ t: number; v: number }>): {
+  times: Array<number>
+  values: Array<number>
+} {
+  const sorted = [...samples].sort((a, b) => a.t - b.t)
+  const times: Array<number> = []
+  const values: Array<number> = []
+  let i = 0
+  while (i < sorted.length) {
+    let j = i
+    let sum = 0
+    while (j < sorted.length && sorted[j].t === sorted[i].t) {
+      sum += sorted[j].v
+      j++
+    }
+    times.push(sorted[i].t)
+    values.push(sum / (j - i))
+    i = j
+  }
+  return { times, values }
+}
+
+// Linearly interpolates samples onto the grid; grid points outside the samples or inside
+// a gap longer than maxGapMs are left out of the result.
+export function resampleLinear(
+  samples: Array<{ t: number; v: number }>,
+  grid: Array<number>,
+  maxGapMs = MAX_INTERPOLATION_GAP_MS,
+): Map<number, number> {
+  const { times, values } = collapseSamples(samples)
+  const result = new Map<number, number>()
+  if (times.length === 0) return result
+
+  let k = 0
+  for (const t of grid) {
+    while (k < times.length - 1 && times[k + 1] < t) k++
+    if (t === times[k]) {
+      result.set(t, values[k])
+      continue
+    }
+    // A sample right after a long gap is kept, not interpolated across the gap
+    if (t === times[k + 1]) {
+      result.set(t, values[k + 1])
+      continue
+    }
+    if (k >= times.length - 1 || t < times[k]) continue
+    const t0 = times[k]
+    const t1 = times[k + 1]
+    if (t1 - t0 > maxGapMs) continue
+    const frac = (t - t0) / (t1 - t0)
+    result.set(t, values[k] + frac * (values[k + 1] - values[k]))
+  }
+  return result
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import {
+  remapSettings,
+  type SessionSettings,
+  sessionId,
+  withoutFlightSettings,
+} from './session-store'
+
+const settings: SessionSettings = {
+  method: 'linear-alt',
+  referenceMode: 'baro2',
+  calibrationRange: { start: 1000, end: 2000 },
+  evaluationRange: null,
+  zoomRange: null,
+  gridRate: 1,
+  temperature: { mode: 'isa' },
+  altitudeBinSize: 200,
+  errorBandSize: 100,
+  validation: { scheme: 'none' },
+  lagCompensation: false,
+  measureLag: false,
+  excludeQualityIssues: false,
+  offsetSignal: 'vario',
+  offsetOverrides: [null, 3000, -2000],
+  datumOverrides: ['geoid', 'ellipsoid', null],
+  qnhSeries: null,
+  varioWindow: 2,
+}
+
+describe('sessionId', () => {
+  const file = (name: string, text: string) => ({
+    name,
+    bytes: new TextEncoder().encode(text).buffer as ArrayBuffer,
+  })
+  const a = file('a.igc', 'B1000004700000N00800000EA0100001000')
+  const b = file('b.igc', 'B1000004700000N00800000EA0200002000')
+
+  it('is the same for the same files and differs in order', async () => {
+    expect(await sessionId([a, b])).toBe(await sessionId([{ ...a }, { ...b }]))
+    expect(await sessionId([a, b])).not.toBe(await sessionId([b, a]))
+  })
+
+  it('tells apart files of the same name and size', async () => {
+    const other = file('b.igc', 'B1000004700000N00800000EA0300003000')
+    expect(other.bytes.byteLength).toBe(b.bytes.byteLength)
+    expect(await sessionId([a, b])).not.toBe(await sessionId([a, other]))
+  })
+})
+
+describe('remapSettings', () => {
+  it('moves per-file settings and the reference instrument with their file', () => {
+    const swapped = remapSettings(settings, [1, 0, 2])
+    expect(swapped.referenceMode).toBe('baro1')
+    expect(swapped.offsetOverrides).toEqual([3000, null, -2000])
+    expect(swapped.datumOverrides).toEqual(['ellipsoid', 'geoid', null])
+  })
+
+  it('falls back to the GPS average when the reference file is gone', () => {
+    const remapped = remapSettings(settings, [0, 2, null])
+    expect(remapped.referenceMode).toBe('avg-gps')
+    expect(remapped.offsetOverrides).toEqual([null, -2000, null])
+    expect(remapped.datumOverrides).toEqual(['geoid', null, null])
+  })
+
+  it('keeps a reference that is not tied to one file', () => {
+    const weighted = { ...settings, referenceMode: 'weighted-gps' as const }
+    expect(remapSettings(weighted, [null, 0]).referenceMode).toBe('weighted-gps')
+  })
+})
+
+describe('withoutFlightSettings', () => {
+  it('drops the ranges and per-file settings but keeps the method', () => {
+    const carried = withoutFlightSettings(settings)
+    expect(carried.calibrationRange).toBeNull()
+    expect(carried.offsetOverrides).toEqual([])
+    expect(carried.method).toBe('linear-alt')
+    expect(carried.referenceMode).toBe('baro2')
+  })
+})
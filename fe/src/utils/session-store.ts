@@ -0,0 +1,185 @@
+// Comparisons kept in IndexedDB: the raw track files plus the settings they were viewed
+// with, so a reload or a later visit reopens them as they were left.
+
+import type { FlightPhase, GPSDatum, TimeRange } from '../types'
+import type { CalibrationMethod, ReferenceMode, TemperatureModel } from './baro-calibration'
+import type { ClockOffsetSignal } from './clock-offset'
+import type { QNHSeries } from './qnh'
+import type { GridRate } from './resampling'
+import type { ValidationOptions } from './validation'
+
+export interface SessionSettings {
+  method: CalibrationMethod
+  referenceMode: ReferenceMode
+  calibrationPhases?: Array<FlightPhase>
+  calibrationRange: TimeRange | null
+  evaluationRange: TimeRange | null
+  zoomRange: TimeRange | null // zoomed window of the altitude chart
+  gridRate: GridRate
+  temperature: TemperatureModel
+  altitudeBinSize: number
+  errorBandSize: number
+  validation: ValidationOptions
+  lagCompensation: boolean
+  measureLag: boolean
+  excludeQualityIssues: boolean
+  offsetSignal: ClockOffsetSignal
+  offsetOverrides: Array<number | null>
+  datumOverrides: Array<GPSDatum | null>
+  qnhSeries: QNHSeries | null
+  varioWindow: number
+}
+
+export interface StoredTrackFile {
+  name: string
+  bytes: ArrayBuffer
+}
+
+// The file contents live in a store of their own, so listing and updating sessions stays cheap
+export interface StoredSession {
+  id: string
+  date: string // flight date of the first file
+  filenames: Array<string>
+  settings: SessionSettings | null // null until the comparison was first shown
+  updatedAt: number
+}
+
+// Settings that belong to one flight and do not carry over to the next comparison
+export function withoutFlightSettings(settings: SessionSettings): SessionSettings {
+  return {
+    ...settings,
+    calibrationRange: null,
+    evaluationRange: null,
+    zoomRange: null,
+    offsetOverrides: [],
+    datumOverrides: [],
+    qnhSeries: null,
+  }
+}
+
+// Carries settings over to a new file order, where `origin[k]` is the former index of file k
+// or null for a new file. Per-file settings and the reference instrument follow their file;
+// a reference that was replaced or removed falls back to the GPS average.
+export function remapSettings(
+  settings: SessionSettings,
+  origin: Array<number | null>,
+): SessionSettings {
+  const remap = <T>(values: Array<T | null>) =>
+    origin.map((from) => (from === null ? null : (values[from] ?? null)))
+  const match = /^(gps|baro)(\d+)$/.exec(settings.referenceMode)
+  const referenceIndex = match ? origin.indexOf(Number.parseInt(match[2], 10) - 1) : -1
+  return {
+    ...settings,
+    referenceMode: !match
+      ? settings.referenceMode
+      : referenceIndex >= 0
+        ? (`${match[1]}${referenceIndex + 1}` as ReferenceMode)
+        : 'avg-gps',
+    offsetOverrides: remap(settings.offsetOverrides),
+    datumOverrides: remap(settings.datumOverrides),
+  }
+}
+
+export const MAX_RECENT_SESSIONS = 20
+
+const DB_NAME = 'barocompare'
+const SESSIONS = 'sessions'
+const FILES = 'files'
+
+// Dropping the same files again reopens their session instead of adding a new one. Each file
+// is named by a SHA-256 hash of its contents, so two flights of the same name and size differ.
+export async function sessionId(files: Array<StoredTrackFile>): Promise<string> {
+  const hashes = await Promise.all(
+    files.map(async (file) => {
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', file.bytes))
+      return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')
+    }),
+  )
+  return files.map((file, i) => `${file.name}:${hashes[i]}`).join('|')
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, 1)
+  req.onupgradeneeded = () => {
+    req.result.createObjectStore(SESSIONS, { keyPath: 'id' })
+    req.result.createObjectStore(FILES)
+  }
+  return request(req)
+}
+
+async function read<T>(store: string, run: (objectStore: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  try {
+    return await request(run(db.transaction(store).objectStore(store)))
+  } finally {
+    db.close()
+  }
+}
+
+// Runs writes on both stores in one transaction, resolving once it commits
+async function write(run: (transaction: IDBTransaction) => void): Promise<void> {
+  const db = await openDatabase()
+  try {
+    const transaction = db.transaction([SESSIONS, FILES], 'readwrite')
+    run(transaction)
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// Sessions newest first
+export async function listRecentSessions(): Promise<Array<StoredSession>> {
+  const sessions = await read(
+    SESSIONS,
+    (store) => store.getAll() as IDBRequest<Array<StoredSession>>,
+  )
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export function loadSession(id: string): Promise<StoredSession | undefined> {
+  return read(SESSIONS, (store) => store.get(id) as IDBRequest<StoredSession | undefined>)
+}
+
+export function loadSessionFiles(id: string): Promise<Array<StoredTrackFile> | undefined> {
+  return read(FILES, (store) => store.get(id) as IDBRequest<Array<StoredTrackFile> | undefined>)
+}
+
+// Stores a session with its files, dropping the oldest beyond MAX_RECENT_SESSIONS
+export async function saveSession(
+  session: StoredSession,
+  files: Array<StoredTrackFile>,
+): Promise<void> {
+  await write((transaction) => {
+    transaction.objectStore(SESSIONS).put(session)
+    transaction.objectStore(FILES).put(files, session.id)
+  })
+  const stale = (await listRecentSessions()).slice(MAX_RECENT_SESSIONS)
+  for (const old of stale) await deleteSession(old.id)
+}
+
+export async function updateSessionSettings(id: string, settings: SessionSettings) {
+  const session = await loadSession(id)
+  if (!session) return
+  await write((transaction) => {
+    transaction.objectStore(SESSIONS).put({ ...session, settings, updatedAt: Date.now() })
+  })
+}
+
+export function deleteSession(id: string): Promise<void> {
+  return write((transaction) => {
+    transaction.objectStore(SESSIONS).delete(id)
+    transaction.objectStore(FILES).delete(id)
+  })
+}
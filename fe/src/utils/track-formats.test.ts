@@ -0,0 +1,113 @@
+import { Encoder, type FileIdMesg, Profile, type RecordMesg } from '@garmin/fitsdk'
+import { describe, expect, it } from 'vitest'
+import { flightSamples, toGPX, toIGC, toKML } from '../test/fixtures'
+import { altitudeFromPressureISA, pressureFromAltitudeISA } from './baro-calibration'
+import { parseCSV, parseFIT, parseGPX, parseKML, parseTrackBytes } from './track-formats'
+
+const samples = flightSamples(60)
+
+describe('parseGPX', () => {
+  it('reads track points as GPS altitude without baro', () => {
+    const file = parseGPX(toGPX(samples), 'phone.gpx')
+    expect(file.fixes).toHaveLength(60)
+    expect(file.fixes[10].timestamp).toBe(samples[10].timestamp)
+    expect(file.fixes[10].latitude).toBeCloseTo(samples[10].latitude, 9)
+    expect(file.fixes[10].gpsAltitude).toBeCloseTo(samples[10].gpsAltitude!, 9)
+    expect(file.fixes.every((fix) => fix.pressureAltitude === null)).toBe(true)
+    expect(file.parseReport.format).toBe('GPX')
+    expect(file.date).toBe('2025-07-15')
+  })
+
+  it('counts points without a time as malformed', () => {
+    const text = toGPX(samples).replace(/<time>[^<]*<\/time>/, '')
+    const file = parseGPX(text, 'phone.gpx')
+    expect(file.fixes).toHaveLength(59)
+    expect(file.parseReport.malformedFixes).toBe(1)
+  })
+})
+
+describe('parseKML', () => {
+  it('pairs every <when> with its <gx:coord>', () => {
+    const file = parseKML(toKML(samples), 'track.kml')
+    expect(file.fixes).toHaveLength(60)
+    expect(file.fixes[30].timestamp).toBe(samples[30].timestamp)
+    expect(file.fixes[30].longitude).toBeCloseTo(samples[30].longitude, 9)
+    expect(file.fixes[30].gpsAltitude).toBeCloseTo(samples[30].gpsAltitude!, 9)
+  })
+})
+
+describe('parseCSV', () => {
+  it('finds columns by header name and converts hPa pressure through ISA', () => {
+    const rows = samples.map((sample) => {
+      const time = new Date(sample.timestamp).toISOString()
+      const hPa = pressureFromAltitudeISA(sample.pressureAltitude!) / 100
+      return `${time.slice(0, 10)};${time.slice(11, 19)};${sample.latitude};${sample.longitude};${hPa}`
+    })
+    const text = ['Date;Time;Latitude;Longitude;Pressure (hPa)', ...rows].join('\n')
+    const file = parseCSV(text, 'flymaster.csv')
+    expect(file.fixes).toHaveLength(60)
+    expect(file.fixes[5].timestamp).toBe(samples[5].timestamp)
+    expect(file.fixes[5].pressureAltitude).toBeCloseTo(samples[5].pressureAltitude!, 6)
+    expect(file.fixes[5].gpsAltitude).toBeNull()
+  })
+
+  it('reads epoch seconds and altitude columns with units', () => {
+    const text = [
+      'timestamp,lat,lon,GPS alt (m),Baro alt [m]',
+      '1752573600,47.1,8.2,1012.5,998',
+      '1752573601,47.1,8.2,1013,999',
+      'bad,47.1,8.2,1013,999',
+    ].join('\n')
+    const file = parseCSV(text, 'xctrack.csv')
+    expect(file.fixes.map((fix) => fix.timestamp)).toEqual([1752573600000, 1752573601000])
+    expect(file.fixes[0].gpsAltitude).toBe(1012.5)
+    expect(file.fixes[0].pressureAltitude).toBe(998)
+    expect(file.parseReport.malformedFixes).toBe(1)
+  })
+
+  it('refuses a file without position columns', () => {
+    expect(() => parseCSV('time,alt\n1752573600,1000', 'x.csv')).toThrow(/latitude/)
+  })
+})
+
+describe('parseFIT', () => {
+  it('converts semicircles and takes the absolute pressure as baro', () => {
+    const encoder = new Encoder()
+    const fileId: FileIdMesg = {
+      type: 'activity',
+      manufacturer: 'development',
+      product: 0,
+      timeCreated: new Date(samples[0].timestamp),
+      serialNumber: 1,
+    }
+    encoder.onMesg(Profile.MesgNum.FILE_ID, fileId)
+    for (const sample of samples) {
+      const record: RecordMesg = {
+        timestamp: new Date(sample.timestamp),
+        positionLat: Math.round((sample.latitude / 180) * 2 ** 31),
+        positionLong: Math.round((sample.longitude / 180) * 2 ** 31),
+        enhancedAltitude: sample.gpsAltitude!,
+        absolutePressure: Math.round(pressureFromAltitudeISA(sample.pressureAltitude!)),
+      }
+      encoder.onMesg(Profile.MesgNum.RECORD, record)
+    }
+    const file = parseFIT(encoder.close(), 'watch.fit')
+    expect(file.fixes).toHaveLength(60)
+    expect(file.fixes[20].timestamp).toBe(samples[20].timestamp)
+    expect(file.fixes[20].latitude).toBeCloseTo(samples[20].latitude, 6)
+    expect(file.fixes[20].longitude).toBeCloseTo(samples[20].longitude, 6)
+    // FIT stores altitude in 0.2 m steps and pressure in whole pascals
+    expect(file.fixes[20].gpsAltitude).toBeCloseTo(samples[20].gpsAltitude!, 0)
+    const pressure = Math.round(pressureFromAltitudeISA(samples[20].pressureAltitude!))
+    expect(file.fixes[20].pressureAltitude).toBeCloseTo(altitudeFromPressureISA(pressure), 6)
+  })
+})
+
+describe('parseTrackBytes', () => {
+  it('chooses the format by extension', () => {
+    const bytes = (text: string) => new TextEncoder().encode(text)
+    expect(parseTrackBytes(bytes(toGPX(samples)), 'A.GPX').parseReport.format).toBe('GPX')
+    expect(parseTrackBytes(bytes(toKML(samples)), 'a.kml').parseReport.format).toBe('KML')
+    expect(parseTrackBytes(bytes(toIGC(samples)), 'a.igc').parseReport.format).toBe('IGC')
+  })
+})
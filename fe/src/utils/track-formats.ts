@@ -0,0 +1,302 @@
+// Format adapters: GPX, KML, CSV and FIT tracks turned into the same fixes structure as a
+// parsed IGC file. A track without one altitude kind leaves it null on every fix.
+
+import { Decoder, Stream } from '@garmin/fitsdk'
+import type { BRecord, IGCFileWithMetadata, TrackFormat } from '../types'
+import { altitudeFromPressureISA } from './baro-calibration'
+import { parseIGCText } from './igc-parser'
+
+export const TRACK_EXTENSIONS = ['.igc', '.gpx', '.kml', '.csv', '.fit']
+
+interface TrackPoint {
+  timestamp: number
+  latitude: number
+  longitude: number
+  gpsAltitude: number | null
+  pressureAltitude: number | null
+}
+
+const extensionOf = (filename: string) => filename.slice(filename.lastIndexOf('.')).toLowerCase()
+
+// Wraps bare track points in the fields a parsed IGC file carries; `skipped` counts the
+// points that could not be read
+function trackFile(
+  filename: string,
+  format: TrackFormat,
+  points: Array<TrackPoint>,
+  skipped: number,
+  errors: Array<string> = [],
+): IGCFileWithMetadata {
+  if (points.length === 0) throw new Error(`${filename}: no timed track points`)
+  const fixes: Array<BRecord> = points
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((point) => ({
+      ...point,
+      time: new Date(point.timestamp).toISOString(),
+      valid: true,
+      extensions: {},
+      fixAccuracy: null,
+      enl: null,
+    }))
+  return {
+    date: fixes[0].time.slice(0, 10),
+    numFlight: null,
+    timezone: null,
+    pilot: null,
+    copilot: null,
+    gliderType: null,
+    registration: null,
+    callsign: null,
+    competitionClass: null,
+    site: null,
+    loggerId: null,
+    loggerManufacturer: '',
+    loggerType: null,
+    firmwareVersion: null,
+    hardwareVersion: null,
+    geoDatum: null,
+    geoDatumAlgorithm: null,
+    geoPressureAlgorithm: null,
+    task: null,
+    fixes,
+    dataRecords: [],
+    commentRecords: [],
+    security: null,
+    errors: [],
+    filename,
+    gpsDatum: null,
+    parseReport: { format, errors, malformedFixes: skipped, inferredDate: null, extensions: [] },
+  }
+}
+
+// Text of the first <tag> element inside `xml`, namespace prefixes included in `tag`
+function elementText(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}\\b[^>]*>([^<]*)</${tag}>`).exec(xml)
+  return match ? match[1].trim() : null
+}
+
+// Timestamps without a zone are taken as UTC, like IGC times
+function parseTime(value: string): number {
+  const text = value.trim()
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const n = Number.parseFloat(text)
+    return n < 1e11 ? n * 1000 : n
+  }
+  const zoned = /(Z|[+-]\d\d:?\d\d)$/i.test(text) ? text : `${text}Z`
+  return Date.parse(zoned.replace(' ', 'T'))
+}
+
+function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null
+  const n = Number.parseFloat(value)
+  return Number.isFinite(n) ? n : null
+}
+
+// GPX <trkpt> elements; <ele> is GPS altitude
+export function parseGPX(text: string, filename: string): IGCFileWithMetadata {
+  const points: Array<TrackPoint> = []
+  let skipped = 0
+  for (const match of text.matchAll(/<trkpt\b([^>]*)>([\s\S]*?)<\/trkpt>/g)) {
+    const latitude = parseNumber(/\blat="([^"]*)"/.exec(match[1])?.[1])
+    const longitude = parseNumber(/\blon="([^"]*)"/.exec(match[1])?.[1])
+    const time = elementText(match[2], 'time')
+    const timestamp = time === null ? Number.NaN : parseTime(time)
+    if (latitude === null || longitude === null || !Number.isFinite(timestamp)) {
+      skipped++
+      continue
+    }
+    points.push({
+      timestamp,
+      latitude,
+      longitude,
+      gpsAltitude: parseNumber(elementText(match[2], 'ele')),
+      pressureAltitude: null,
+    })
+  }
+  return trackFile(filename, 'GPX', points, skipped)
+}
+
+// KML <gx:Track> elements, pairing each <when> with its <gx:coord>; plain LineStrings carry
+// no times and are of no use here
+export function parseKML(text: string, filename: string): IGCFileWithMetadata {
+  const points: Array<TrackPoint> = []
+  let skipped = 0
+  for (const track of text.matchAll(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/g)) {
+    const whens = [...track[1].matchAll(/<when>([^<]*)<\/when>/g)].map((m) => m[1])
+    const coords = [...track[1].matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)].map((m) => m[1])
+    whens.forEach((when, k) => {
+      const [longitude, latitude, altitude] = (coords[k] ?? '').trim().split(/\s+/)
+      const timestamp = parseTime(when)
+      const lat = parseNumber(latitude)
+      const lon = parseNumber(longitude)
+      if (!Number.isFinite(timestamp) || lat === null || lon === null) {
+        skipped++
+        return
+      }
+      points.push({
+        timestamp,
+        latitude: lat,
+        longitude: lon,
+        gpsAltitude: parseNumber(altitude),
+        pressureAltitude: null,
+      })
+    })
+  }
+  return trackFile(filename, 'KML', points, skipped)
+}
+
+// Header names, lowercased with units in brackets and punctuation removed
+const CSV_COLUMNS = {
+  time: ['time', 'timestamp', 'datetime', 'utc', 'utctime'],
+  date: ['date'],
+  latitude: ['lat', 'latitude'],
+  longitude: ['lon', 'lng', 'long', 'longitude'],
+  gps: [
+    'gpsalt',
+    'gpsaltitude',
+    'altgps',
+    'altitudegps',
+    'gnssalt',
+    'gnssaltitude',
+    'ele',
+    'elevation',
+    'alt',
+    'altitude',
+  ],
+  baro: [
+    'baro',
+    'baroalt',
+    'baroaltitude',
+    'altbaro',
+    'altitudebaro',
+    'pressurealt',
+    'pressurealtitude',
+  ],
+  pressure: ['pressure', 'airpressure', 'staticpressure'],
+}
+
+const normalizeHeader = (name: string) =>
+  name
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+
+// Delimited text with a header row. Altitudes are in metres; a pressure column (hPa or Pa)
+// becomes pressure altitude through the standard atmosphere, as a logger would compute it.
+export function parseCSV(text: string, filename: string): IGCFileWithMetadata {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '')
+  if (lines.length < 2) throw new Error(`${filename}: no data rows`)
+  const delimiter = [';', '\t', ','].find((d) => lines[0].includes(d)) ?? ','
+  const split = (line: string) => line.split(delimiter).map((cell) => cell.replace(/^"|"$/g, ''))
+
+  const header = split(lines[0]).map(normalizeHeader)
+  const column = (names: Array<string>) => header.findIndex((name) => names.includes(name))
+  const time = column(CSV_COLUMNS.time)
+  const date = column(CSV_COLUMNS.date)
+  const latitude = column(CSV_COLUMNS.latitude)
+  const longitude = column(CSV_COLUMNS.longitude)
+  const gps = column(CSV_COLUMNS.gps)
+  const baro = column(CSV_COLUMNS.baro)
+  const pressure = column(CSV_COLUMNS.pressure)
+  if ((time < 0 && date < 0) || latitude < 0 || longitude < 0) {
+    throw new Error(`${filename}: needs time, latitude and longitude columns`)
+  }
+
+  const points: Array<TrackPoint> = []
+  let skipped = 0
+  for (const line of lines.slice(1)) {
+    const cells = split(line)
+    const timestamp =
+      time >= 0 && date >= 0
+        ? parseTime(`${cells[date]}T${cells[time]}`)
+        : parseTime(cells[time >= 0 ? time : date] ?? '')
+    const lat = parseNumber(cells[latitude])
+    const lon = parseNumber(cells[longitude])
+    if (!Number.isFinite(timestamp) || lat === null || lon === null) {
+      skipped++
+      continue
+    }
+
+    let pressureAltitude = baro >= 0 ? parseNumber(cells[baro]) : null
+    const p = pressure >= 0 ? parseNumber(cells[pressure]) : null
+    if (pressureAltitude === null && p !== null && p > 0) {
+      pressureAltitude = altitudeFromPressureISA(p < 2000 ? p * 100 : p)
+    }
+    points.push({
+      timestamp,
+      latitude: lat,
+      longitude: lon,
+      gpsAltitude: gps >= 0 ? parseNumber(cells[gps]) : null,
+      pressureAltitude,
+    })
+  }
+  return trackFile(filename, 'CSV', points, skipped)
+}
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31
+
+// FIT record messages. The recorded altitude is taken as GPS altitude: watches calibrate
+// their barometer to GPS or a known elevation, so it is no pressure altitude. The raw
+// absolute pressure, when present, gives the pressure altitude.
+export function parseFIT(bytes: Uint8Array, filename: string): IGCFileWithMetadata {
+  const decoder = new Decoder(Stream.fromByteArray(bytes))
+  if (!decoder.isFIT()) throw new Error(`${filename}: not a FIT file`)
+  const { messages, errors } = decoder.read()
+
+  const points: Array<TrackPoint> = []
+  let skipped = 0
+  for (const record of messages.recordMesgs ?? []) {
+    if (
+      record.timestamp === undefined ||
+      record.positionLat === undefined ||
+      record.positionLong === undefined
+    ) {
+      skipped++
+      continue
+    }
+    const altitude = record.enhancedAltitude ?? record.altitude
+    points.push({
+      timestamp: new Date(record.timestamp).getTime(),
+      latitude: record.positionLat * SEMICIRCLES_TO_DEGREES,
+      longitude: record.positionLong * SEMICIRCLES_TO_DEGREES,
+      gpsAltitude: altitude ?? null,
+      pressureAltitude: record.absolutePressure
+        ? altitudeFromPressureISA(record.absolutePressure)
+        : null,
+    })
+  }
+  return trackFile(
+    filename,
+    'FIT',
+    points,
+    skipped,
+    errors.map((error) => error.message),
+  )
+}
+
+// Parses a track file of any supported format, chosen by its extension
+export function parseTrackBytes(bytes: Uint8Array, filename: string): IGCFileWithMetadata {
+  const extension = extensionOf(filename)
+  if (extension === '.fit') return parseFIT(bytes, filename)
+  const text = new TextDecoder().decode(bytes)
+  switch (extension) {
+    case '.gpx':
+      return parseGPX(text, filename)
+    case '.kml':
+      return parseKML(text, filename)
+    case '.csv':
+      return parseCSV(text, filename)
+    default:
+      return parseIGCText(text, filename)
+  }
+}
+
+export async function parseTrackFile(file: File): Promise<IGCFileWithMetadata> {
+  return parseTrackBytes(new Uint8Array(await file.arrayBuffer()), file.name)
+}
+
+export function sortTrackFiles(files: Array<File>): Array<File> {
+  return files
+    .filter((f) => TRACK_EXTENSIONS.includes(extensionOf(f.name)))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START, flightSamples, toIGC } from '../test/fixtures'
+import { calculateBaroCalibration } from './chart-calculations'
+import { parseIGCText } from './igc-parser'
+import { assignFolds, residualStats } from './validation'
+
+describe('assignFolds', () => {
+  // One sample a minute for an hour
+  const times = Array.from({ length: 60 }, (_, k) => FIXTURE_START + k * 60_000)
+
+  it('deals five-minute blocks round-robin for k-fold', () => {
+    const folds = assignFolds(times, 'k-fold', 3)
+    expect(folds.slice(0, 16)).toEqual([0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 2, 0])
+  })
+
+  it('cuts the span into contiguous blocks for time-block', () => {
+    const folds = assignFolds(times, 'time-block', 4)
+    expect(folds.filter((fold) => fold === 0)).toHaveLength(15)
+    expect(folds.every((fold, k) => k === 0 || fold >= folds[k - 1])).toBe(true)
+    expect(folds[59]).toBe(3)
+  })
+})
+
+describe('residualStats', () => {
+  it('reports bias, RMSE and the 95th percentile of |residual|', () => {
+    const residuals = Array.from({ length: 20 }, (_, k): number => (k % 2 ? 3 : -1))
+    residuals[19] = 10
+    const stats = residualStats(residuals)!
+    expect(stats.count).toBe(20)
+    expect(stats.bias).toBeCloseTo((9 * 3 + 10 * -1 + 10) / 20, 9)
+    expect(stats.rmse).toBeCloseTo(Math.sqrt((9 * 9 + 10 * 1 + 100) / 20), 9)
+    expect(stats.percentile95).toBe(10)
+    expect(residualStats([])).toBeNull()
+  })
+})
+
+describe('holdout validation', () => {
+  // A baro whose offset drifts by 30 m over the half hour, which a straight line in altitude
+  // fits on average but cannot extrapolate to a held-out end of the flight
+  const drifting = parseIGCText(
+    toIGC(flightSamples(1800, (h, s) => h + (30 * s) / 1800)),
+    'drift.igc',
+  )
+
+  it('scores every shared point out of sample', () => {
+    const info = calculateBaroCalibration([drifting], {
+      method: 'linear-alt',
+      validation: { scheme: 'time-block', folds: 5 },
+    })
+    const [{ inSample, outOfSample }] = info.validation.instruments
+    expect(info.validation.folds).toBe(5)
+    expect(inSample!.count).toBe(1800)
+    expect(outOfSample!.count).toBe(1800)
+    expect(outOfSample!.rmse).toBeGreaterThan(inSample!.rmse)
+  })
+
+  it('runs no holdout without a scheme', () => {
+    const info = calculateBaroCalibration([drifting], { method: 'linear-alt' })
+    expect(info.validation.folds).toBe(0)
+    expect(info.validation.instruments[0].outOfSample).toBeNull()
+  })
+})
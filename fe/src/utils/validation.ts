@@ -0,0 +1,46 @@
+// Holdout validation: residuals of a calibration on points it was not fitted to.
+
+import type { ResidualStats } from '../types'
+
+export type ValidationScheme =
+  | 'none' // in-sample residuals only
+  | 'k-fold' // short time blocks dealt round-robin into the folds
+  | 'time-block' // the shared span cut into one contiguous block per fold
+
+export interface ValidationOptions {
+  scheme: ValidationScheme
+  folds?: number
+}
+
+export const VALIDATION_SCHEMES: Array<ValidationScheme> = ['none', 'k-fold', 'time-block']
+
+export const DEFAULT_VALIDATION_FOLDS = 5
+
+// Block length of 'k-fold'. Neighbouring samples share most of their error, so holding out
+// single samples would leave the fit with near-copies of every test point.
+const K_FOLD_BLOCK_MS = 5 * 60 * 1000
+
+// Fold index per timestamp, `times` sorted ascending
+export function assignFolds(
+  times: Array<number>,
+  scheme: Exclude<ValidationScheme, 'none'>,
+  folds: number,
+): Array<number> {
+  if (times.length === 0) return []
+  const start = times[0]
+  if (scheme === 'k-fold') {
+    return times.map((t) => Math.floor((t - start) / K_FOLD_BLOCK_MS) % folds)
+  }
+  const span = times[times.length - 1] - start + 1
+  return times.map((t) => Math.min(folds - 1, Math.floor(((t - start) / span) * folds)))
+}
+
+// Bias, RMSE and 95th percentile of |residual|, null without residuals
+export function residualStats(residuals: Array<number>): ResidualStats | null {
+  if (residuals.length === 0) return null
+  const bias = residuals.reduce((a, r) => a + r, 0) / residuals.length
+  const rmse = Math.sqrt(residuals.reduce((a, r) => a + r * r, 0) / residuals.length)
+  const sortedAbs = residuals.map(Math.abs).sort((a, b) => a - b)
+  const percentile95 = sortedAbs[Math.floor(sortedAbs.length * 0.95)] ?? 0
+  return { bias, rmse, percentile95, count: residuals.length }
+}
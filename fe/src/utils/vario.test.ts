@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { FIXTURE_START, flightAltitude, flightSamples, toIGC } from '../test/fixtures'
+import {
+  baroLagShifts,
+  calculateBaroCalibration,
+  calculateVarioComparison,
+} from './chart-calculations'
+import { parseIGCText } from './igc-parser'
+import { estimateVarioLag, MIN_LAG_CORRELATION, varioNoise, verticalSpeed } from './vario'
+
+// Ten minutes of the fixture profile on a grid of `rateHz`, delayed by `delaySeconds`
+const trace = (rateHz: number, delaySeconds = 0) =>
+  new Map(
+    Array.from({ length: 600 * rateHz }, (_, k): [number, number] => [
+      FIXTURE_START + (k * 1000) / rateHz,
+      flightAltitude(k / rateHz - delaySeconds),
+    ]),
+  )
+
+describe('verticalSpeed', () => {
+  it('gives the slope of a steady climb and skips windows cut by a gap', () => {
+    const climb = new Map(
+      Array.from({ length: 20 }, (_, s): [number, number] => [s * 1000, 100 + 2.5 * s]),
+    )
+    climb.delete(10_000)
+    climb.delete(11_000)
+    const vario = verticalSpeed(climb, 2, 1)
+    expect(vario.get(5000)).toBeCloseTo(2.5, 9)
+    expect(vario.has(9000)).toBe(false)
+    expect(vario.has(12_000)).toBe(false)
+  })
+})
+
+describe('varioNoise', () => {
+  it('measures the spread around the moving average, not the climb itself', () => {
+    const steady = new Map(
+      Array.from({ length: 120 }, (_, s): [number, number] => [s * 1000, 2 + 0.01 * s]),
+    )
+    expect(varioNoise(steady, 2)).toBeLessThan(0.01)
+    const jittery = new Map(
+      [...steady].map(([t, v], s): [number, number] => [t, v + (s % 2 ? 0.5 : -0.5)]),
+    )
+    expect(varioNoise(jittery, 2)).toBeCloseTo(1.4826 * 0.5, 1)
+    expect(varioNoise(new Map(), 2)).toBeNull()
+  })
+})
+
+describe('calculateVarioComparison', () => {
+  // A clean logger and one whose baro jitters by a few metres
+  const files = [
+    parseIGCText(toIGC(flightSamples(1800)), 'clean.igc'),
+    parseIGCText(toIGC(flightSamples(1800, (h, s) => h + 3 * Math.sin(s * 2.7))), 'noisy.igc'),
+  ]
+  const calibration = calculateBaroCalibration(files, { method: 'linear-alt' })
+
+  it('traces every instrument and rates the jittery baro the noisier', () => {
+    const vario = calculateVarioComparison(files, calibration, 2)
+    expect(vario.baroTraces).toHaveLength(2)
+    expect(vario.baroTraces[0].length).toBeGreaterThan(1700)
+    // The profile's short thermals count as noise too, identically for baro and GPS
+    expect(vario.baroNoise[0]).toBeCloseTo(vario.gpsNoise[0]!, 1)
+    expect(vario.baroNoise[1]!).toBeGreaterThan(vario.baroNoise[0]! + 0.1)
+    // Both GPS series are the same track
+    expect(vario.gpsMatrix[0][1]!.correlation).toBeCloseTo(1, 9)
+    expect(vario.baroMatrix[0][1]!.correlation).toBeLessThan(vario.gpsMatrix[0][1]!.correlation)
+  })
+
+  it('agrees better with a longer window', () => {
+    const short = calculateVarioComparison(files, calibration, 2).baroMatrix[0][1]!
+    const long = calculateVarioComparison(files, calibration, 10).baroMatrix[0][1]!
+    expect(long.rmsDifference).toBeLessThan(short.rmsDifference)
+  })
+})
+
+describe('estimateVarioLag', () => {
+  it('is positive when the target trails the reference', () => {
+    for (const rateHz of [1, 4]) {
+      const result = estimateVarioLag(trace(rateHz), trace(rateHz, 1.5), rateHz)!
+      expect(result.lagMs).toBeCloseTo(1500, -2)
+      expect(result.correlation).toBeGreaterThan(MIN_LAG_CORRELATION)
+    }
+    expect(estimateVarioLag(trace(4, 1.5), trace(4), 4)!.lagMs).toBeCloseTo(-1500, -2)
+  })
+})
+
+describe('lag compensation', () => {
+  // A baro trailing its own GPS by 3 s
+  const slow = [
+    parseIGCText(toIGC(flightSamples(1800, (_, s) => flightAltitude(s - 3))), 'slow.igc'),
+  ]
+  const fit = (lagCompensation: boolean, measureLag = false) =>
+    calculateBaroCalibration(slow, { method: 'linear-alt', lagCompensation, measureLag })
+
+  it('measures the lag only when asked to', () => {
+    expect(fit(false).lag).toBeNull()
+    expect(baroLagShifts(null)).toEqual([])
+  })
+
+  it('measures the lag to GPS and shifts the baro by it', () => {
+    const plain = fit(false, true)
+    expect(plain.lag!.toGps[0]!.lagMs).toBeCloseTo(3000, -2)
+    expect(baroLagShifts(plain.lag)).toEqual([0])
+
+    const compensated = fit(true)
+    expect(baroLagShifts(compensated.lag)[0]).toBeCloseTo(3000, -2)
+    const rmse = (info: typeof plain) => info.validation.instruments[0].inSample!.rmse
+    expect(rmse(compensated)).toBeLessThan(1)
+    expect(rmse(plain)).toBeGreaterThan(5)
+  })
+})
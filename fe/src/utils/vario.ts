@@ -0,0 +1,113 @@
+// Vertical speed (vario) derived from altitude series on the common time grid.
+
+import { findBestLag } from './clock-offset'
+
+export const DEFAULT_VARIO_WINDOW_SECONDS = 2
+
+// Noise is measured around a smoothed copy of the trace, at least this long (s)
+const MIN_NOISE_WINDOW_SECONDS = 20
+
+// A window needs this share of its expected grid samples to produce a value
+const MIN_WINDOW_COVERAGE = 0.8
+
+// Calls visit(t, lo, hi) with the index range [lo, hi) of the samples within ±halfMs of each
+// sample time, `times` sorted ascending
+export function slidingWindow(
+  times: Array<number>,
+  halfMs: number,
+  visit: (index: number, lo: number, hi: number) => void,
+) {
+  let lo = 0
+  let hi = 0
+  for (let i = 0; i < times.length; i++) {
+    while (times[lo] < times[i] - halfMs) lo++
+    while (hi < times.length && times[hi] <= times[i] + halfMs) hi++
+    visit(i, lo, hi)
+  }
+}
+
+// Least-squares slope (m/s) of altitude over a centred window of `windowSeconds` (at least one
+// grid step either side), on a grid of `rateHz`. Windows cut by a gap are left out.
+export function verticalSpeed(
+  altitude: Map<number, number>,
+  windowSeconds: number,
+  rateHz: number,
+): Map<number, number> {
+  const times = [...altitude.keys()].sort((a, b) => a - b)
+  const values = times.map((t) => altitude.get(t)!)
+  const halfMs = Math.max(windowSeconds / 2, 1 / rateHz) * 1000
+  const expected = (2 * halfMs * rateHz) / 1000 + 1
+  const minSamples = Math.max(3, Math.floor(expected * MIN_WINDOW_COVERAGE))
+  const result = new Map<number, number>()
+
+  slidingWindow(times, halfMs, (i, lo, hi) => {
+    const n = hi - lo
+    if (n < minSamples) return
+    let st = 0
+    let sh = 0
+    let stt = 0
+    let sth = 0
+    for (let k = lo; k < hi; k++) {
+      const t = (times[k] - times[i]) / 1000
+      st += t
+      sh += values[k]
+      stt += t * t
+      sth += t * values[k]
+    }
+    const denom = n * stt - st * st
+    if (denom > 0) result.set(times[i], (n * sth - st * sh) / denom)
+  })
+  return result
+}
+
+// Spread (m/s) of the trace around its own moving average over a much longer window, as a
+// MAD-based standard deviation so takeoff and landing transients do not dominate it
+export function varioNoise(vario: Map<number, number>, windowSeconds: number): number | null {
+  const times = [...vario.keys()].sort((a, b) => a - b)
+  const values = times.map((t) => vario.get(t)!)
+  const halfMs = (Math.max(MIN_NOISE_WINDOW_SECONDS, 5 * windowSeconds) * 1000) / 2
+
+  const deviations: Array<number> = []
+  slidingWindow(times, halfMs, (i, lo, hi) => {
+    let mean = 0
+    for (let k = lo; k < hi; k++) mean += values[k]
+    mean /= hi - lo
+    deviations.push(Math.abs(values[i] - mean))
+  })
+  if (deviations.length === 0) return null
+  deviations.sort((a, b) => a - b)
+  return 1.4826 * deviations[Math.floor(deviations.length / 2)]
+}
+
+// Lags below this vertical-speed correlation are reported but not compensated
+export const MIN_LAG_CORRELATION = 0.5
+
+// Longest response lag searched for (s)
+const MAX_LAG_SECONDS = 10
+
+// Smoothing window of the vertical speed that is cross-correlated (s)
+const LAG_VARIO_WINDOW_SECONDS = 2
+
+// Response lag (ms) of `target` behind `reference` from the cross-correlation of their
+// vertical speed, positive when the target trails; both series on a grid of `rateHz`
+export function estimateVarioLag(
+  reference: Map<number, number>,
+  target: Map<number, number>,
+  rateHz: number,
+): { lagMs: number; correlation: number } | null {
+  // findBestLag works in whole samples, so key the traces by grid index
+  const stepMs = 1000 / rateHz
+  const bySample = (altitude: Map<number, number>) => {
+    const indexed = new Map<number, number>()
+    for (const [t, v] of verticalSpeed(altitude, LAG_VARIO_WINDOW_SECONDS, rateHz)) {
+      indexed.set(Math.round(t / stepMs), v)
+    }
+    return indexed
+  }
+  const result = findBestLag(
+    bySample(reference),
+    bySample(target),
+    Math.ceil(MAX_LAG_SECONDS * rateHz),
+  )
+  return result ? { lagMs: result.lag * stepMs, correlation: result.correlation } : null
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 // noinspection ES6PreferShortImport
 
 import tailwindcss from '@tailwindcss/vite'
@@ -22,6 +23,10 @@ export default defineConfig({
     //   filename: 'dist/stats.html',
     // }),
   ],
+  // The tests cover the utils, which need no DOM
+  test: {
+    environment: 'node',
+  },
   server: {
     port: 3012,
     // fs: {